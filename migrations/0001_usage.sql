@@ -0,0 +1,10 @@
+-- Per-user usage counters, one row per user and UTC day (see src/usage.ts)
+CREATE TABLE usage_daily (
+	user_id TEXT NOT NULL,
+	day TEXT NOT NULL,
+	requests INTEGER NOT NULL DEFAULT 0,
+	llm_calls INTEGER NOT NULL DEFAULT 0,
+	prompt_tokens INTEGER NOT NULL DEFAULT 0,
+	completion_tokens INTEGER NOT NULL DEFAULT 0,
+	PRIMARY KEY (user_id, day)
+);
@@ -0,0 +1,34 @@
+-- Memory text for keyword search (see src/keyword.ts). Vectorize stays the record of each
+-- memory; a row is written with every vector write and removed with the vector. Memories stored
+-- before this migration are written here by the scheduled backfill (runKeywordBackfillBatch in
+-- src/memory.ts) and until then are found by vector search only.
+CREATE TABLE memory_text (
+	id TEXT PRIMARY KEY,
+	user_id TEXT NOT NULL,
+	type TEXT NOT NULL,
+	conversation_id TEXT,
+	timestamp TEXT NOT NULL,
+	text TEXT NOT NULL
+);
+
+CREATE INDEX memory_text_user ON memory_text (user_id, timestamp);
+
+-- BM25-ranked full-text index over memory_text, kept in step by the triggers below
+CREATE VIRTUAL TABLE memory_fts USING fts5 (
+	text,
+	content = 'memory_text',
+	tokenize = 'unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER memory_text_insert AFTER INSERT ON memory_text BEGIN
+	INSERT INTO memory_fts (rowid, text) VALUES (new.rowid, new.text);
+END;
+
+CREATE TRIGGER memory_text_delete AFTER DELETE ON memory_text BEGIN
+	INSERT INTO memory_fts (memory_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+END;
+
+CREATE TRIGGER memory_text_update AFTER UPDATE ON memory_text BEGIN
+	INSERT INTO memory_fts (memory_fts, rowid, text) VALUES ('delete', old.rowid, old.text);
+	INSERT INTO memory_fts (rowid, text) VALUES (new.rowid, new.text);
+END;
@@ -0,0 +1,105 @@
+import type { Env } from "./env";
+import type { LlmProviderOptions } from "./llm";
+import { generateUlid, ULID_PATTERN, type MemoryScope } from "./memory";
+
+// A named assistant: its persona, how memories are shown to it, and the model it answers with.
+export interface AssistantProfile {
+	id: string;
+	name: string;
+	systemPrompt: string;
+	// Wraps the retrieved memories in the system message; {{memories}} marks where they go
+	memoryTemplate: string;
+	// Unset values fall back to the configured providers' defaults
+	model?: string;
+	temperature?: number;
+	maxTokens?: number;
+	// Remember and recall in a namespace of its own instead of the user's shared memory
+	isolatedMemory: boolean;
+	createdAt: string;
+	updatedAt: string;
+}
+
+export type AssistantSettings = Omit<AssistantProfile, "id" | "createdAt" | "updatedAt">;
+
+export const MEMORY_TEMPLATE_PLACEHOLDER = "{{memories}}";
+export const MAX_ASSISTANTS_PER_USER = 50;
+// Memory user IDs of isolated assistants; API keys cannot be issued for user IDs with this prefix
+export const ASSISTANT_NAMESPACE_PREFIX = "asst_";
+
+export const DEFAULT_SYSTEM_PROMPT = "You are a helpful assistant that remembers what the user has told you in earlier conversations.";
+export const DEFAULT_MEMORY_TEMPLATE = `This is some chat history that you may take as reference data:\n\n${MEMORY_TEMPLATE_PLACEHOLDER}`;
+
+// Chat requests without an assistantId answer as this profile
+export const DEFAULT_ASSISTANT: AssistantProfile = {
+	id: "default",
+	name: "Default",
+	systemPrompt: DEFAULT_SYSTEM_PROMPT,
+	memoryTemplate: DEFAULT_MEMORY_TEMPLATE,
+	isolatedMemory: false,
+	createdAt: new Date(0).toISOString(),
+	updatedAt: new Date(0).toISOString()
+};
+
+function assistantPrefix(userId: string): string {
+	return `assistants:${userId}:`;
+}
+
+function assistantKey(userId: string, id: string): string {
+	return assistantPrefix(userId) + id;
+}
+
+// All of the user's assistants, oldest first. System prompts outgrow KV key metadata, so each
+// profile is read; MAX_ASSISTANTS_PER_USER keeps that to one list page.
+export async function listUserAssistants(env: Env, userId: string): Promise<AssistantProfile[]> {
+	const page = await env.messageId.list({ prefix: assistantPrefix(userId) });
+	const profiles = await Promise.all(page.keys.map((key) => env.messageId.get<AssistantProfile>(key.name, "json")));
+	return profiles.filter((profile): profile is AssistantProfile => !!profile);
+}
+
+export async function getUserAssistant(env: Env, userId: string, id: string): Promise<AssistantProfile | null> {
+	if (!ULID_PATTERN.test(id)) {
+		return null;
+	}
+	return env.messageId.get<AssistantProfile>(assistantKey(userId, id), "json");
+}
+
+async function saveAssistant(env: Env, userId: string, profile: AssistantProfile): Promise<void> {
+	await env.messageId.put(assistantKey(userId, profile.id), JSON.stringify(profile));
+}
+
+export async function createUserAssistant(env: Env, userId: string, settings: AssistantSettings): Promise<AssistantProfile> {
+	const now = new Date().toISOString();
+	const profile: AssistantProfile = { id: generateUlid(), ...settings, createdAt: now, updatedAt: now };
+	await saveAssistant(env, userId, profile);
+	return profile;
+}
+
+export async function updateUserAssistant(env: Env, userId: string, existing: AssistantProfile, settings: AssistantSettings): Promise<AssistantProfile> {
+	const profile: AssistantProfile = { id: existing.id, ...settings, createdAt: existing.createdAt, updatedAt: new Date().toISOString() };
+	await saveAssistant(env, userId, profile);
+	return profile;
+}
+
+export async function deleteUserAssistant(env: Env, userId: string, id: string): Promise<void> {
+	await env.messageId.delete(assistantKey(userId, id));
+}
+
+// Where the assistant remembers: the user's own memory, or with isolatedMemory a namespace
+// that belongs to the assistant alone. The conversation narrows either one the same way.
+export function assistantMemoryScope(scope: MemoryScope, profile: AssistantProfile): MemoryScope {
+	return profile.isolatedMemory ? { ...scope, userId: ASSISTANT_NAMESPACE_PREFIX + profile.id } : scope;
+}
+
+// The system message: the persona, followed by the memories in the profile's template.
+export function buildSystemPrompt(profile: AssistantProfile, memories: string[], instructions: string[] = []): string {
+	const sections = [profile.systemPrompt.trim()];
+	if (memories.length > 0) {
+		sections.push(profile.memoryTemplate.split(MEMORY_TEMPLATE_PLACEHOLDER).join(memories.join("\n\n")).trim());
+	}
+	sections.push(...instructions);
+	return sections.filter(Boolean).join("\n\n");
+}
+
+export function assistantLlmOptions(profile: AssistantProfile): LlmProviderOptions {
+	return { model: profile.model, temperature: profile.temperature, maxTokens: profile.maxTokens };
+}
@@ -0,0 +1,241 @@
+import { assistantMemoryScope, getUserAssistant } from "./assistants";
+import { parseNumber, type Env } from "./env";
+import { estimateTokens } from "./history";
+import { ApiError } from "./http";
+import type { OpenRouterMessage } from "./llm";
+import { SCOPE_ID_PATTERN, type MemoryScope } from "./memory";
+import type { Handler, RequestContext } from "./router";
+import { recordUsage } from "./usage";
+
+// API keys are stored by the SHA-256 of the key, so the KV namespace never holds usable secrets.
+// The hash doubles as the key's ID for revocation, rate limiting and quotas.
+export interface ApiKeyRecord {
+	userId: string;
+	name: string;
+	createdAt: string;
+	rateLimitPerMinute?: number;
+	dailyTokenQuota?: number;
+}
+
+export interface Principal {
+	keyId: string;
+	userId: string;
+	rateLimitPerMinute: number;
+	dailyTokenQuota: number;
+}
+
+// The context handed to handlers behind withApiKey
+export interface AuthedContext extends RequestContext {
+	principal: Principal;
+}
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 30;
+const DEFAULT_DAILY_TOKEN_QUOTA = 100000;
+
+function apiKeyRecordKey(keyId: string): string {
+	return `apikey:${keyId}`;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+	return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function generateApiKey(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	return "cbm_" + Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Offered by WebSocket clients next to their "bearer.<key>" subprotocol, and echoed back
+export const WEBSOCKET_PROTOCOL = "chatbot";
+
+// Browsers cannot set headers on a WebSocket handshake, so there the key may come as a
+// "bearer.<key>" subprotocol instead of an Authorization header.
+function getBearerToken(request: Request): string | null {
+	const match = (request.headers.get("Authorization") || "").match(/^Bearer\s+(\S+)$/i);
+	if (match) {
+		return match[1];
+	}
+	const protocols = (request.headers.get("Sec-WebSocket-Protocol") || "").split(",").map((protocol) => protocol.trim());
+	const bearer = protocols.find((protocol) => protocol.startsWith("bearer."));
+	return bearer ? bearer.slice("bearer.".length) : null;
+}
+
+function unauthorized(message: string): ApiError {
+	return new ApiError(401, "unauthorized", message, { headers: { "WWW-Authenticate": 'Bearer realm="api"' } });
+}
+
+function tooManyRequests(code: "rate_limited" | "quota_exceeded", message: string, retryAfterSeconds: number): ApiError {
+	return new ApiError(429, code, message, {
+		details: { retryAfter: retryAfterSeconds },
+		headers: { "Retry-After": Math.max(1, Math.ceil(retryAfterSeconds)).toString() },
+	});
+}
+
+// Resolve the bearer API key to its user.
+async function authenticate(request: Request, env: Env): Promise<Principal> {
+	const token = getBearerToken(request);
+	if (!token) {
+		throw unauthorized("Missing bearer API key");
+	}
+	const keyId = await sha256Hex(token);
+	const record = await env.messageId.get<ApiKeyRecord>(apiKeyRecordKey(keyId), "json");
+	if (!record) {
+		throw unauthorized("Invalid API key");
+	}
+	return toPrincipal(env, keyId, record);
+}
+
+function toPrincipal(env: Env, keyId: string, record: ApiKeyRecord): Principal {
+	return {
+		keyId,
+		userId: record.userId,
+		rateLimitPerMinute: record.rateLimitPerMinute ?? parseNumber(env.RATE_LIMIT_PER_MINUTE, DEFAULT_RATE_LIMIT_PER_MINUTE),
+		dailyTokenQuota: record.dailyTokenQuota ?? parseNumber(env.DAILY_TOKEN_QUOTA, DEFAULT_DAILY_TOKEN_QUOTA)
+	};
+}
+
+// Check again that a principal's key is still valid, for connections that outlive the request
+// that authenticated them. Returns the principal with the key's current limits.
+export async function reauthenticate(env: Env, principal: Principal): Promise<Principal> {
+	const record = await env.messageId.get<ApiKeyRecord>(apiKeyRecordKey(principal.keyId), "json");
+	if (!record || record.userId !== principal.userId) {
+		throw unauthorized("API key has been revoked");
+	}
+	return toPrincipal(env, principal.keyId, record);
+}
+
+// Compare digests so the check takes the same time whatever the token.
+async function isAdminToken(request: Request, env: Env): Promise<boolean> {
+	const token = getBearerToken(request);
+	if (!token || !env.ADMIN_API_TOKEN) {
+		return false;
+	}
+	const encoder = new TextEncoder();
+	const [given, expected] = await Promise.all([
+		crypto.subtle.digest("SHA-256", encoder.encode(token)),
+		crypto.subtle.digest("SHA-256", encoder.encode(env.ADMIN_API_TOKEN))
+	]);
+	return crypto.subtle.timingSafeEqual(given, expected);
+}
+
+// Fixed one-minute windows counted in KV. KV is eventually consistent, so bursts spread over
+// several locations can briefly exceed the limit; it is a cost guard, not an exact meter.
+export async function enforceRateLimit(env: Env, principal: Principal): Promise<void> {
+	if (principal.rateLimitPerMinute <= 0) {
+		return;
+	}
+	const now = Date.now();
+	const window = Math.floor(now / 60000);
+	const key = `ratelimit:${principal.keyId}:${window}`;
+	const count = parseInt((await env.messageId.get(key)) || "0");
+	if (count >= principal.rateLimitPerMinute) {
+		throw tooManyRequests("rate_limited", "Rate limit exceeded", ((window + 1) * 60000 - now) / 1000);
+	}
+	await env.messageId.put(key, (count + 1).toString(), { expirationTtl: 120 });
+}
+
+// Require a valid API key and count the request against its rate limit and the user's usage.
+export function withApiKey(handler: Handler<AuthedContext>): Handler {
+	return async (c) => {
+		const principal = await authenticate(c.request, c.env);
+		await enforceRateLimit(c.env, principal);
+		c.ctx.waitUntil(recordUsage(c.env, principal.userId, { requests: 1 }));
+		return handler({ ...c, principal });
+	};
+}
+
+// Require the ADMIN_API_TOKEN; key management is disabled while it is unset.
+export function withAdminToken(handler: Handler): Handler {
+	return async (c) => {
+		if (!c.env.ADMIN_API_TOKEN) {
+			throw new ApiError(403, "forbidden", "Key management is disabled; set ADMIN_API_TOKEN");
+		}
+		if (!getBearerToken(c.request)) {
+			throw unauthorized("Missing bearer admin token");
+		}
+		if (!(await isAdminToken(c.request, c.env))) {
+			throw new ApiError(403, "forbidden", "Admin token required");
+		}
+		return handler(c);
+	};
+}
+
+// The user is always the one the caller's API key belongs to; only the conversation comes
+// from the request (X-Conversation-Id header, body or query).
+export function getMemoryScope(c: AuthedContext, body?: { conversationId?: string }): MemoryScope {
+	const conversationId = c.request.headers.get("X-Conversation-Id") || body?.conversationId || c.url.searchParams.get("conversationId") || undefined;
+
+	if (conversationId !== undefined && !SCOPE_ID_PATTERN.test(conversationId)) {
+		throw new ApiError(400, "validation_failed", "Invalid conversation ID", {
+			fields: [{ field: "conversationId", message: "must be letters, digits, '-' or '_', up to 48 characters" }]
+		});
+	}
+	return { userId: c.principal.userId, conversationId };
+}
+
+// getMemoryScope for the memory endpoints, which also take an assistant (assistantId in the
+// body or query) to reach the namespace of an assistant with isolated memory.
+export async function getAssistantMemoryScope(c: AuthedContext, body?: { conversationId?: string; assistantId?: string }): Promise<MemoryScope> {
+	const scope = getMemoryScope(c, body);
+	const assistantId = body?.assistantId || c.url.searchParams.get("assistantId");
+	if (!assistantId) {
+		return scope;
+	}
+	const assistant = await getUserAssistant(c.env, scope.userId, assistantId);
+	if (!assistant) {
+		throw new ApiError(400, "validation_failed", "Unknown assistant", { fields: [{ field: "assistantId", message: "is not one of your assistants" }] });
+	}
+	return assistantMemoryScope(scope, assistant);
+}
+
+export async function createApiKey(env: Env, record: ApiKeyRecord): Promise<{ key: string; keyId: string }> {
+	const key = generateApiKey();
+	const keyId = await sha256Hex(key);
+	await env.messageId.put(apiKeyRecordKey(keyId), JSON.stringify(record));
+	return { key, keyId };
+}
+
+export async function revokeApiKey(env: Env, keyId: string): Promise<void> {
+	await env.messageId.delete(apiKeyRecordKey(keyId));
+}
+
+function tokenUsageKey(keyId: string, now: Date): string {
+	return `tokens:${keyId}:${now.toISOString().slice(0, 10)}`;
+}
+
+function secondsUntilUtcMidnight(now: Date): number {
+	const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+	return (midnight - now.getTime()) / 1000;
+}
+
+export async function checkTokenQuota(env: Env, principal: Principal): Promise<void> {
+	if (principal.dailyTokenQuota <= 0) {
+		return;
+	}
+	const now = new Date();
+	const used = await getTokenUsage(env, principal, now);
+	if (used >= principal.dailyTokenQuota) {
+		throw tooManyRequests("quota_exceeded", "Daily token quota exhausted", secondsUntilUtcMidnight(now));
+	}
+}
+
+// Tokens counted against the key's quota today (UTC)
+export async function getTokenUsage(env: Env, principal: Principal, now: Date = new Date()): Promise<number> {
+	return parseInt((await env.messageId.get(tokenUsageKey(principal.keyId, now))) || "0");
+}
+
+export async function recordTokenUsage(env: Env, principal: Principal, tokens: number): Promise<void> {
+	const now = new Date();
+	const key = tokenUsageKey(principal.keyId, now);
+	const used = parseInt((await env.messageId.get(key)) || "0");
+	await env.messageId.put(key, (used + tokens).toString(), { expirationTtl: 2 * 24 * 60 * 60 });
+}
+
+export function estimateMessageTokens(messages: OpenRouterMessage[], reply: string): number {
+	// Only text is counted; image parts would otherwise be billed by the length of their data URLs
+	const prompt = messages.reduce((total, message) => total + estimateTokens(typeof message.content === "string"
+		? message.content
+		: message.content.map((part) => part.text || "").join("\n")), 0);
+	return prompt + estimateTokens(reply);
+}
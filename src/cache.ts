@@ -0,0 +1,165 @@
+import { assistantMemoryScope, DEFAULT_ASSISTANT, getUserAssistant } from "./assistants";
+import type { ChatRequest, chatResult } from "./chat";
+import { cosineSimilarity, embedTexts, getEmbeddingModel } from "./embeddings";
+import { parseNumber, type Env } from "./env";
+import { getConversationTurns } from "./history";
+import { getLogger } from "./log";
+import type { MemoryScope } from "./memory";
+
+// An answer as cached: the chat response body, less the conversation it was given in
+export type CachedResult = Omit<ReturnType<typeof chatResult>, "conversationId">;
+
+interface CacheEntry {
+	// The prompt as normalized by normalizePrompt, and its embedding for near-identical matches
+	prompt: string;
+	embedding: number[];
+	embeddingModel: string;
+	result: CachedResult;
+	createdAt: string;
+}
+
+// Where the answers given in one context are cached, and the prompt to look up or store
+export interface ResponseCacheContext {
+	key: string;
+	// The user the entries belong to, the memory namespace whose generation the key is under and
+	// the rest of what the key covers
+	userId: string;
+	namespace: string;
+	settings: unknown[];
+	prompt: string;
+	// Set once the prompt has been embedded, so storing the answer need not embed it again
+	embedding: number[] | null;
+}
+
+export interface CachedResponse {
+	result: CachedResult;
+	similarity: number;
+	ageSeconds: number;
+}
+
+const DEFAULT_TTL_SECONDS = 3600;
+// The shortest expiration KV accepts
+const MIN_TTL_SECONDS = 60;
+const DEFAULT_SIMILARITY = 0.95;
+const MAX_ENTRIES_PER_CONTEXT = 20;
+
+export function isResponseCacheEnabled(env: Env): boolean {
+	return env.RESPONSE_CACHE === "true";
+}
+
+function getTtlSeconds(env: Env): number {
+	return Math.max(MIN_TTL_SECONDS, Math.floor(parseNumber(env.RESPONSE_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS)));
+}
+
+// Changes whenever the memories of a namespace change, see invalidateResponseCache
+function generationKey(namespace: string): string {
+	return `response-cache-generation:${namespace}`;
+}
+
+function normalizePrompt(prompt: string): string {
+	return prompt.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// The memories of the namespace changed, so answers cached under them no longer apply. Cached
+// entries are keyed by generation and simply never looked up again before they expire.
+export async function invalidateResponseCache(env: Env, namespace: string): Promise<void> {
+	try {
+		await env.messageId.put(generationKey(namespace), crypto.randomUUID());
+	} catch (error) {
+		getLogger(env).error("response_cache_invalidation_failed", { namespace, error });
+	}
+}
+
+async function responseCacheKey(env: Env, userId: string, namespace: string, settings: unknown[]): Promise<string> {
+	const generation = await env.messageId.get(generationKey(namespace));
+	const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify([generation, ...settings]))));
+	return `response-cache:${userId}:${Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// The cache context of a chat message, or null when its answer is not cached: the cache is off,
+// the client opted out, or the message has images or tools, whose answers depend on more than
+// its text. Answers are shared by messages under the same memories, assistant settings, memory
+// types and preceding turn, so a repeated question in a fresh conversation is answered at once.
+export async function getResponseCacheContext(env: Env, scope: MemoryScope, body: ChatRequest): Promise<ResponseCacheContext | null> {
+	const prompt = normalizePrompt(body.message || body.text || "");
+	if (!isResponseCacheEnabled(env) || body.cache === false || !prompt || body.images?.length || body.tools) {
+		return null;
+	}
+	const assistant = body.assistantId ? await getUserAssistant(env, scope.userId, body.assistantId) : DEFAULT_ASSISTANT;
+	if (!assistant) {
+		return null;
+	}
+
+	const namespace = assistantMemoryScope(scope, assistant).userId;
+	const turns = scope.conversationId ? await getConversationTurns(env, scope.userId, scope.conversationId) : [];
+	const settings = [assistant.id, assistant.updatedAt, body.memoryTypes ?? null, turns[turns.length - 1]?.content ?? ""];
+	return { key: await responseCacheKey(env, scope.userId, namespace, settings), userId: scope.userId, namespace, settings, prompt, embedding: null };
+}
+
+async function readEntries(env: Env, key: string, now: number): Promise<CacheEntry[]> {
+	const entries = (await env.messageId.get<CacheEntry[]>(key, "json")) || [];
+	const ttlMs = getTtlSeconds(env) * 1000;
+	return entries.filter((entry) => now - Date.parse(entry.createdAt) < ttlMs);
+}
+
+// The cached answer to the same prompt, or to the most similar one at or above
+// RESPONSE_CACHE_SIMILARITY. The prompt is only embedded when there is no exact match.
+export async function findCachedResponse(env: Env, context: ResponseCacheContext, now: number = Date.now()): Promise<CachedResponse | null> {
+	const entries = await readEntries(env, context.key, now);
+	let match: { entry: CacheEntry; similarity: number } | null = null;
+
+	const exact = entries.find((entry) => entry.prompt === context.prompt);
+	if (exact) {
+		match = { entry: exact, similarity: 1 };
+	} else {
+		const model = getEmbeddingModel(env);
+		const candidates = entries.filter((entry) => entry.embeddingModel === model);
+		if (candidates.length === 0) {
+			return null;
+		}
+		try {
+			[context.embedding] = await embedTexts(env, [context.prompt], model);
+		} catch (error) {
+			// Answer without the cache rather than fail the chat
+			getLogger(env).warn("response_cache_lookup_failed", { error });
+			return null;
+		}
+		const threshold = parseNumber(env.RESPONSE_CACHE_SIMILARITY, DEFAULT_SIMILARITY);
+		for (const entry of candidates) {
+			const similarity = cosineSimilarity(context.embedding!, entry.embedding);
+			if (similarity >= threshold && similarity > (match?.similarity ?? 0)) {
+				match = { entry, similarity };
+			}
+		}
+	}
+
+	if (!match) {
+		return null;
+	}
+	getLogger(env).info("response_cache_hit", { similarity: match.similarity });
+	return {
+		result: match.entry.result,
+		similarity: match.similarity,
+		ageSeconds: Math.max(0, Math.floor((now - Date.parse(match.entry.createdAt)) / 1000))
+	};
+}
+
+// Keep an answer for RESPONSE_CACHE_TTL_SECONDS. Remembering the exchange that produced it
+// invalidated the cache, so the answer is filed under the memories as they stand now, which is
+// where the same prompt asked next looks; any later memory write clears it again. Caching is an
+// optimization: failures are logged, never thrown. The entries of a context share one KV value,
+// so when two misses in the same context are stored at once the later write wins and the other
+// answer is simply not cached; the next time its prompt is asked it is a miss again.
+export async function cacheResponse(env: Env, context: ResponseCacheContext, result: ReturnType<typeof chatResult>, now: Date = new Date()): Promise<void> {
+	try {
+		const model = getEmbeddingModel(env);
+		const embedding = context.embedding ?? (await embedTexts(env, [context.prompt], model))[0];
+		const { conversationId: _conversationId, ...cached } = result;
+		const entry: CacheEntry = { prompt: context.prompt, embedding, embeddingModel: model, result: cached, createdAt: now.toISOString() };
+		context.key = await responseCacheKey(env, context.userId, context.namespace, context.settings);
+		const entries = (await readEntries(env, context.key, now.getTime())).filter((existing) => existing.prompt !== context.prompt);
+		await env.messageId.put(context.key, JSON.stringify([entry, ...entries].slice(0, MAX_ENTRIES_PER_CONTEXT)), { expirationTtl: getTtlSeconds(env) });
+	} catch (error) {
+		getLogger(env).warn("response_cache_store_failed", { error });
+	}
+}
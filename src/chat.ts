@@ -0,0 +1,202 @@
+import { assistantLlmOptions, assistantMemoryScope, buildSystemPrompt, DEFAULT_ASSISTANT, getUserAssistant } from "./assistants";
+import { checkTokenQuota, type Principal } from "./auth";
+import { CITATION_INSTRUCTION, citedIn, numberCitations, type Citation } from "./documents";
+import type { Env } from "./env";
+import { appendConversationTurns, getConversationTurns, getHistoryTokenBudget, selectHistoryMessages, type ConversationTurn } from "./history";
+import { ApiError } from "./http";
+import { resolveImage, toDataUrl, type StoredImage } from "./images";
+import { createLlmClient, type LlmClient, type OpenRouterMessage } from "./llm";
+import { getLogger } from "./log";
+import { describeUsedMemories, formatMemoryForPrompt, getMemoryByChat, MEMORY_TYPES, rememberExchange, type MemoryScope, type RetrievedMemory } from "./memory";
+import { runAgentLoop, TOOL_INSTRUCTION, type ToolInvocation } from "./tools";
+import { recordLlmUsage } from "./usage";
+import { array, boolean, object, oneOf, optional, string, type Infer } from "./validation";
+
+const MAX_CHAT_IMAGES = 4;
+
+// A chat message, as posted to /api/chat or sent over a session's WebSocket
+export const chatRequestSchema = object({
+	// The user's message; "text" is accepted as an alias
+	message: optional(string()),
+	text: optional(string()),
+	conversationId: optional(string()),
+	stream: optional(boolean()),
+	memoryTypes: optional(array(oneOf(MEMORY_TYPES))),
+	// Uploaded image IDs (see POST /api/images), data URLs or https image URLs
+	images: optional(array(string({ minLength: 1 }), { maxItems: MAX_CHAT_IMAGES })),
+	// Answer as one of the user's assistants (see /api/assistants) instead of the default profile
+	assistantId: optional(string()),
+	// Let the model search, save and forget memories itself before answering
+	tools: optional(boolean()),
+	// false skips the response cache (see src/cache.ts): the answer is neither looked up nor kept
+	cache: optional(boolean()),
+});
+
+export type ChatRequest = Infer<typeof chatRequestSchema>;
+
+// Everything needed to answer one message and to record the exchange afterwards.
+export interface PreparedChat {
+	conversationScope: MemoryScope & { conversationId: string };
+	// Where the exchange is remembered: the user's memory or an isolated assistant's
+	rememberScope: MemoryScope;
+	assistantId: string | null;
+	llm: LlmClient;
+	messages: OpenRouterMessage[];
+	memories: RetrievedMemory[];
+	citations: Citation[];
+	images: StoredImage[];
+	// The message as the user wrote it, and as shown to the model with image captions appended
+	userMessage: string;
+	userText: string;
+	userTimestamp: string;
+	// With tools, the model runs its tool calls before answering, and the answer arrives whole
+	agent: { reply: string; toolLog: ToolInvocation[] } | null;
+}
+
+async function* singleToken(text: string): AsyncGenerator<string> {
+	yield text;
+}
+
+// Build the model's context for a message: the assistant's persona and memories, the recent
+// turns of the conversation (read from KV unless the caller holds them) and any images.
+export async function prepareChat(env: Env, principal: Principal, scope: MemoryScope, body: ChatRequest, transcript?: ConversationTurn[]): Promise<PreparedChat> {
+	const userMessage = body.message || body.text || "";
+	if (!userMessage.trim() && !body.images?.length) {
+		throw new ApiError(400, "validation_failed", "Message is required", { fields: [{ field: "message", message: "is required" }] });
+	}
+
+	const assistant = body.assistantId ? await getUserAssistant(env, scope.userId, body.assistantId) : DEFAULT_ASSISTANT;
+	if (!assistant) {
+		throw new ApiError(400, "validation_failed", "Unknown assistant", { fields: [{ field: "assistantId", message: "is not one of your assistants" }] });
+	}
+	const memoryScope = assistantMemoryScope(scope, assistant);
+
+	await checkTokenQuota(env, principal);
+
+	// Conversations without an ID get a fresh one, returned to the client to continue the thread
+	const conversationScope = { ...scope, conversationId: scope.conversationId || crypto.randomUUID() };
+	const userTimestamp = new Date().toISOString();
+
+	const rememberScope = assistantMemoryScope(conversationScope, assistant);
+
+	// Store and caption attached images; each becomes an "image" memory of this conversation,
+	// remembered where the assistant remembers
+	const attachments: Array<{ image: StoredImage; bytes: ArrayBuffer }> = [];
+	for (const [i, reference] of (body.images || []).entries()) {
+		attachments.push(await resolveImage(env, conversationScope, reference, `images[${i}]`, rememberScope));
+	}
+	const images = attachments.map((attachment) => attachment.image);
+
+	// The text the model sees for this turn, with captions standing in for the images for text-only providers
+	const userText = [userMessage, ...images.map((image) => `[Attached image${image.caption ? `: ${image.caption}` : ""}]`)]
+		.filter(Boolean)
+		.join("\n");
+	const memoryQuery = [userMessage, ...images.map((image) => image.caption)].filter((text) => text.trim()).join("\n");
+
+	// Get relevant memories from vector database, and the recent turns of this conversation
+	const [retrieved, turns] = await Promise.all([
+		memoryQuery ? getMemoryByChat(env, memoryScope, memoryQuery, { types: body.memoryTypes }) : Promise.resolve([]),
+		transcript ?? getConversationTurns(env, scope.userId, conversationScope.conversationId)
+	]);
+	// The attached images were just remembered; don't feed them back as memories
+	const memories = retrieved.filter((memory) => !images.some((image) => image.id === memory.imageId));
+
+	// The system message carries the persona and the memories; document excerpts are numbered so the answer can cite them
+	const citations = numberCitations(memories);
+	const formatted = memories.map((memory) => {
+		const citation = citations.find((candidate) => candidate.memoryId === memory.id);
+		return citation ? `[${citation.index}] ${formatMemoryForPrompt(memory)}` : formatMemoryForPrompt(memory);
+	});
+	const instructions = [citations.length > 0 && CITATION_INSTRUCTION, body.tools && TOOL_INSTRUCTION].filter((instruction): instruction is string => !!instruction);
+	const systemPrompt = buildSystemPrompt(assistant, formatted, instructions);
+
+	// Call the LLM with prior turns and context
+	const messages: OpenRouterMessage[] = [
+		{ role: "system", content: systemPrompt },
+		...selectHistoryMessages(turns, getHistoryTokenBudget(env)),
+		{
+			role: "user",
+			content: attachments.length === 0 ? userText : [
+				{ type: "text", text: userText },
+				...attachments.map(({ image, bytes }) => ({ type: "image_url" as const, image_url: { url: toDataUrl(bytes, image.contentType) } }))
+			]
+		}
+	];
+
+	const llm = createLlmClient(env, { ...assistantLlmOptions(assistant), vision: attachments.length > 0 });
+	const agent = body.tools ? await runAgentLoop(env, llm, memoryScope, messages) : null;
+
+	return {
+		conversationScope,
+		rememberScope,
+		assistantId: body.assistantId ?? null,
+		llm,
+		messages,
+		memories,
+		citations,
+		images,
+		userMessage,
+		userText,
+		userTimestamp,
+		agent
+	};
+}
+
+// The reply's tokens as they are generated.
+export function streamReply(chat: PreparedChat): AsyncGenerator<string> {
+	return chat.agent ? singleToken(chat.agent.reply) : chat.llm.stream(chat.messages);
+}
+
+export async function completeReply(chat: PreparedChat): Promise<string> {
+	return chat.agent ? chat.agent.reply : chat.llm.complete(chat.messages);
+}
+
+// The response body of a finished chat, also sent as the final streamed event.
+export function chatResult(chat: PreparedChat, reply: string) {
+	return {
+		message: reply || "No response generated",
+		conversationId: chat.conversationScope.conversationId,
+		assistantId: chat.assistantId,
+		memories: describeUsedMemories(chat.memories),
+		citations: citedIn(reply, chat.citations),
+		tools: chat.agent?.toolLog ?? [],
+		images: chat.images,
+		success: true
+	};
+}
+
+// The user's turn as it goes into the transcript.
+export function userTurn(chat: PreparedChat): ConversationTurn {
+	const turn: ConversationTurn = { role: "user", content: chat.userText, timestamp: chat.userTimestamp };
+	if (chat.images.length > 0) {
+		turn.imageIds = chat.images.map((image) => image.id);
+	}
+	return turn;
+}
+
+// Persist the exchange to the user's transcript. Returns the turns added to the transcript;
+// failures are logged, so the turn can always be ended with what was kept.
+export async function appendExchange(env: Env, chat: PreparedChat, reply: string): Promise<ConversationTurn[]> {
+	const turns: ConversationTurn[] = [userTurn(chat), { role: "assistant", content: reply, timestamp: new Date().toISOString() }];
+	try {
+		await appendConversationTurns(env, chat.conversationScope.userId, chat.conversationScope.conversationId, turns);
+	} catch (error) {
+		getLogger(env).error("history_store_failed", { conversationId: chat.conversationScope.conversationId, error });
+	}
+	return turns;
+}
+
+// Store the exchange in the assistant's long-term memory, then count the tokens of every model
+// call it took.
+export async function rememberChatExchange(env: Env, principal: Principal, chat: PreparedChat, reply: string): Promise<void> {
+	await rememberExchange(env, chat.llm, chat.rememberScope, chat.userMessage, reply);
+	await recordLlmUsage(env, principal, chat.llm, chat.messages, reply);
+}
+
+// Persist the exchange to the transcript and to long-term memory. Returns the turns added to
+// the transcript.
+export async function recordExchange(env: Env, principal: Principal, chat: PreparedChat, reply: string): Promise<ConversationTurn[]> {
+	const turns = await appendExchange(env, chat, reply);
+	await rememberChatExchange(env, principal, chat, reply);
+	return turns;
+}
@@ -0,0 +1,286 @@
+import { parseNumber, type Env } from "./env";
+import { ApiError } from "./http";
+import { LlmProviderError } from "./llm";
+import { deleteUserMemories, generateUlid, storeUserMemory, ULID_PATTERN, type MemoryScope, type RetrievedMemory } from "./memory";
+
+export const DOCUMENT_CONTENT_TYPES = ["text/plain", "text/markdown", "text/html", "application/pdf"] as const;
+export type DocumentContentType = typeof DOCUMENT_CONTENT_TYPES[number];
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+// Every chunk costs a vector and a KV index write; this keeps one upload within a request's limits
+export const MAX_DOCUMENT_CHUNKS = 200;
+export const MAX_DOCUMENT_NAME_LENGTH = 200;
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 200;
+const DOCUMENT_LIST_PAGE_SIZE = 100;
+
+// For uploads whose Content-Type is missing or generic, e.g. Markdown files in a multipart form
+const EXTENSION_CONTENT_TYPES: Record<string, DocumentContentType> = {
+	txt: "text/plain",
+	md: "text/markdown",
+	markdown: "text/markdown",
+	html: "text/html",
+	htm: "text/html",
+	pdf: "application/pdf"
+};
+
+export interface DocumentRecord {
+	id: string;
+	name: string;
+	contentType: DocumentContentType;
+	size: number;
+	chunkCount: number;
+	createdAt: string;
+	conversationId?: string;
+}
+
+// The KV value; the record alone is also kept as key metadata so listing needs no reads
+interface StoredDocument extends DocumentRecord {
+	chunkIds: string[];
+}
+
+export interface DocumentChunk {
+	text: string;
+	// Character offset of the chunk in the extracted text
+	offset: number;
+}
+
+function documentPrefix(userId: string): string {
+	return `documents:${userId}:`;
+}
+
+function documentKey(userId: string, id: string): string {
+	return documentPrefix(userId) + id;
+}
+
+export function documentError(field: string, message: string): ApiError {
+	return new ApiError(400, "validation_failed", "Invalid document", { fields: [{ field, message }] });
+}
+
+// Resolve the declared content type, falling back to the file extension for generic types.
+export function resolveDocumentContentType(contentType: string, name: string): DocumentContentType | null {
+	if ((DOCUMENT_CONTENT_TYPES as readonly string[]).includes(contentType)) {
+		return contentType as DocumentContentType;
+	}
+	if (contentType === "text/x-markdown") {
+		return "text/markdown";
+	}
+	if (contentType === "" || contentType === "application/octet-stream") {
+		const extension = name.split(".").pop()?.toLowerCase() || "";
+		return EXTENSION_CONTENT_TYPES[extension] ?? null;
+	}
+	return null;
+}
+
+const HTML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+function decodeHtmlEntity(entity: string, name: string): string {
+	if (name.startsWith("#")) {
+		const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+		return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+	}
+	return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+}
+
+// Reduce HTML to its readable text, keeping block elements on lines of their own.
+export function htmlToText(html: string): string {
+	return html
+		.replace(/<(script|style|noscript|template)\b[\s\S]*?<\/\1\s*>/gi, "")
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/?(p|div|section|article|header|footer|main|nav|aside|li|ul|ol|dl|dt|dd|tr|table|h[1-6]|blockquote|pre|hr)\b[^>]*>/gi, "\n\n")
+		.replace(/<[^>]*>/g, "")
+		.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, decodeHtmlEntity)
+		.replace(/[^\S\n]+/g, " ")
+		.replace(/ *\n */g, "\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+// PDFs go through Workers AI's document conversion, which returns Markdown.
+async function convertPdf(env: Env, bytes: ArrayBuffer, name: string): Promise<string> {
+	try {
+		const result = await env.AI.toMarkdown({ name, blob: new Blob([bytes], { type: "application/pdf" }) });
+		return result.data;
+	} catch (error) {
+		throw new LlmProviderError("workers-ai", `document conversion failed: ${error instanceof Error ? error.message : "unknown error"}`);
+	}
+}
+
+export async function extractDocumentText(env: Env, bytes: ArrayBuffer, contentType: DocumentContentType, name: string): Promise<string> {
+	if (contentType === "application/pdf") {
+		return (await convertPdf(env, bytes, name)).replace(/\r\n?/g, "\n").trim();
+	}
+	const text = new TextDecoder().decode(bytes).replace(/\r\n?/g, "\n");
+	return contentType === "text/html" ? htmlToText(text) : text.trim();
+}
+
+// The end of a chunk that starts before min and may run to max: after the last paragraph
+// break in [min, max], else the last sentence end, else the last whitespace, else max.
+function findChunkEnd(text: string, min: number, max: number): number {
+	const window = text.slice(min, max);
+	for (const pattern of [/\n\s*\n/g, /[.!?]["')\]]?\s/g, /\s/g]) {
+		let last = -1;
+		for (const match of window.matchAll(pattern)) {
+			last = match.index + match[0].length;
+		}
+		if (last > 0) {
+			return min + last;
+		}
+	}
+	return max;
+}
+
+// Split text into chunks of about `size` characters, each repeating up to `overlap` characters
+// of the one before so that a passage cut at a boundary is still whole in one of them.
+export function chunkText(text: string, size: number, overlap: number): DocumentChunk[] {
+	const chunks: DocumentChunk[] = [];
+	let start = 0;
+	while (start < text.length) {
+		const end = start + size < text.length ? findChunkEnd(text, start + Math.floor(size / 2), start + size) : text.length;
+		const raw = text.slice(start, end);
+		const chunk = raw.trim();
+		if (chunk) {
+			chunks.push({ text: chunk, offset: start + raw.length - raw.trimStart().length });
+		}
+		if (end >= text.length) {
+			break;
+		}
+		// Step back by the overlap, then forward to the next word so no chunk starts mid-word
+		let next = Math.max(end - overlap, start + 1);
+		if (!/\s/.test(text[next - 1])) {
+			const boundary = text.slice(next, end).search(/\s/);
+			next = boundary === -1 ? end : next + boundary + 1;
+		}
+		start = next;
+	}
+	return chunks;
+}
+
+function checkDocument(bytes: ArrayBuffer, field: string): void {
+	if (bytes.byteLength === 0) {
+		throw documentError(field, "must not be empty");
+	}
+	if (bytes.byteLength > MAX_DOCUMENT_BYTES) {
+		throw documentError(field, `must be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`);
+	}
+}
+
+// Extract a document's text, split it into overlapping chunks, and remember each chunk as a
+// "document" memory that records the document, its name and the chunk's offset.
+export async function ingestDocument(env: Env, scope: MemoryScope, bytes: ArrayBuffer, contentType: DocumentContentType, name: string, field: string): Promise<DocumentRecord> {
+	checkDocument(bytes, field);
+
+	const text = await extractDocumentText(env, bytes, contentType, name);
+	const size = Math.max(100, parseNumber(env.DOCUMENT_CHUNK_SIZE, DEFAULT_CHUNK_SIZE));
+	const overlap = Math.min(Math.floor(size / 2), Math.max(0, parseNumber(env.DOCUMENT_CHUNK_OVERLAP, DEFAULT_CHUNK_OVERLAP)));
+	const chunks = chunkText(text, size, overlap);
+	if (chunks.length === 0) {
+		throw documentError(field, "contains no text");
+	}
+	if (chunks.length > MAX_DOCUMENT_CHUNKS) {
+		throw documentError(field, `must split into at most ${MAX_DOCUMENT_CHUNKS} chunks, got ${chunks.length}`);
+	}
+
+	const id = generateUlid();
+	const stored = await storeUserMemory(env, scope, chunks.map((chunk) => ({
+		text: chunk.text,
+		type: "document" as const,
+		document: { documentId: id, source: name, offset: chunk.offset }
+	})));
+
+	const record: DocumentRecord = {
+		id,
+		name,
+		contentType,
+		size: bytes.byteLength,
+		chunkCount: stored.length,
+		createdAt: new Date().toISOString()
+	};
+	if (scope.conversationId) {
+		record.conversationId = scope.conversationId;
+	}
+	const value: StoredDocument = { ...record, chunkIds: stored.map((memory) => memory.id) };
+	await env.messageId.put(documentKey(scope.userId, id), JSON.stringify(value), { metadata: record });
+	return record;
+}
+
+// One page of the user's documents, oldest first.
+export async function listUserDocuments(env: Env, scope: MemoryScope, cursor: string | null): Promise<{ documents: DocumentRecord[]; nextCursor: string | null }> {
+	const page = await env.messageId.list<DocumentRecord>({ prefix: documentPrefix(scope.userId), limit: DOCUMENT_LIST_PAGE_SIZE, cursor });
+	const documents = page.keys
+		.map((key) => key.metadata)
+		.filter((record): record is DocumentRecord => !!record && (!scope.conversationId || record.conversationId === scope.conversationId));
+	return { documents, nextCursor: page.list_complete ? null : page.cursor };
+}
+
+export async function getUserDocument(env: Env, userId: string, id: string): Promise<DocumentRecord | null> {
+	if (!ULID_PATTERN.test(id)) {
+		return null;
+	}
+	const stored = await env.messageId.get<StoredDocument>(documentKey(userId, id), "json");
+	if (!stored) {
+		return null;
+	}
+	const { chunkIds: _chunkIds, ...record } = stored;
+	return record;
+}
+
+// Delete a document together with every chunk it was split into.
+export async function deleteUserDocument(env: Env, userId: string, id: string): Promise<DocumentRecord | null> {
+	if (!ULID_PATTERN.test(id)) {
+		return null;
+	}
+	const stored = await env.messageId.get<StoredDocument>(documentKey(userId, id), "json");
+	if (!stored) {
+		return null;
+	}
+	if (stored.chunkIds.length > 0) {
+		await deleteUserMemories(env, userId, stored.chunkIds);
+	}
+	await env.messageId.delete(documentKey(userId, id));
+	const { chunkIds: _chunkIds, ...record } = stored;
+	return record;
+}
+
+// Drop the records of documents whose chunks went with a bulk memory deletion.
+export async function deleteScopedDocumentRecords(env: Env, scope: MemoryScope): Promise<void> {
+	let cursor: string | null = null;
+	do {
+		const page = await listUserDocuments(env, scope, cursor);
+		await Promise.all(page.documents.map((record) => env.messageId.delete(documentKey(scope.userId, record.id))));
+		cursor = page.nextCursor;
+	} while (cursor);
+}
+
+export interface Citation {
+	// The number the model sees and cites, as in "[1]"
+	index: number;
+	memoryId: string;
+	documentId: string;
+	source: string;
+	offset: number;
+	text: string;
+}
+
+export const CITATION_INSTRUCTION = "When your answer uses a numbered document excerpt, cite it by its number in square brackets, e.g. [1].";
+
+// Number the document excerpts among the memories given to the model, in prompt order.
+export function numberCitations(memories: RetrievedMemory[]): Citation[] {
+	return memories
+		.filter((memory) => memory.document)
+		.map((memory, i) => ({
+			index: i + 1,
+			memoryId: memory.id,
+			documentId: memory.document!.documentId,
+			source: memory.document!.source,
+			offset: memory.document!.offset,
+			text: memory.text
+		}));
+}
+
+// The citations the reply actually refers to.
+export function citedIn(reply: string, citations: Citation[]): Citation[] {
+	const cited = new Set(Array.from(reply.matchAll(/\[(\d+)\]/g), (match) => parseInt(match[1])));
+	return citations.filter((citation) => cited.has(citation.index));
+}
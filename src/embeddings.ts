@@ -0,0 +1,100 @@
+import type { Env } from "./env";
+import { LlmProviderError } from "./llm";
+import { getLogger } from "./log";
+
+interface EmbeddingResponse {
+	shape: number[];
+	data: number[][];
+}
+
+// Vectors stored before the model was recorded in their metadata were made by this model
+export const DEFAULT_EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+// The most texts bge-base-en-v1.5 embeds per call
+const EMBEDDING_BATCH_SIZE = 100;
+
+const EMBEDDING_MIGRATION_KEY = "embedding-migration";
+
+export function getEmbeddingModel(env: Env): string {
+	return env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+}
+
+// The model recorded on a stored vector.
+export function vectorEmbeddingModel(metadata: { embeddingModel?: string } | undefined): string {
+	return metadata?.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+}
+
+// Embedding failures come from Workers AI, so they are reported like any other upstream model error.
+export async function embedTexts(env: Env, texts: string[], model: string = getEmbeddingModel(env)): Promise<number[][]> {
+	return getLogger(env).span("embedding", { model, texts: texts.length }, async () => {
+		try {
+			const embeddings: number[][] = [];
+			for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+				const response = await env.AI.run(model as typeof DEFAULT_EMBEDDING_MODEL, { text: texts.slice(i, i + EMBEDDING_BATCH_SIZE) }) as EmbeddingResponse;
+				embeddings.push(...response.data);
+			}
+			return embeddings;
+		} catch (error) {
+			throw new LlmProviderError("workers-ai", `embedding failed: ${error instanceof Error ? error.message : "unknown error"}`);
+		}
+	});
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Progress of re-embedding every stored memory with a new EMBEDDING_MODEL, kept in KV.
+// The job walks the memory ID index of all users in batches, resuming from `cursor`.
+export interface EmbeddingMigration {
+	fromModel: string;
+	toModel: string;
+	// Other models whose vectors may still be stored: those of migrations the model changed
+	// under before they completed
+	otherModels?: string[];
+	status: "running" | "completed" | "failed";
+	cursor: string | null;
+	// Memories looked at and memories re-embedded so far
+	scanned: number;
+	reembedded: number;
+	// Vectors in the index when the migration started, for a rough percentage
+	total: number;
+	error?: string;
+	startedAt: string;
+	updatedAt: string;
+	completedAt?: string;
+}
+
+export async function getEmbeddingMigration(env: Env): Promise<EmbeddingMigration | null> {
+	return env.messageId.get<EmbeddingMigration>(EMBEDDING_MIGRATION_KEY, "json");
+}
+
+export async function saveEmbeddingMigration(env: Env, migration: EmbeddingMigration): Promise<void> {
+	await env.messageId.put(EMBEDDING_MIGRATION_KEY, JSON.stringify(migration));
+}
+
+// The models stored vectors may have: the default before any migration, the target once one
+// completes, and while one runs or after it failed, each model it or an interrupted one involved.
+export function storedEmbeddingModels(migration: EmbeddingMigration | null): string[] {
+	if (!migration) {
+		return [DEFAULT_EMBEDDING_MODEL];
+	}
+	if (migration.status === "completed") {
+		return [migration.toModel];
+	}
+	return [...new Set([migration.fromModel, migration.toModel, ...(migration.otherModels ?? [])])];
+}
+
+// The models whose vectors may currently be in the index: the configured one, and until a
+// migration to it completes, those before. Queries embed with each and keep matching vectors.
+export async function getQueryEmbeddingModels(env: Env): Promise<string[]> {
+	const target = getEmbeddingModel(env);
+	return [...new Set([target, ...storedEmbeddingModels(await getEmbeddingMigration(env))])];
+}
@@ -0,0 +1,55 @@
+import type { Logger } from "./log";
+import type { ChatSession } from "./session";
+
+export interface Env {
+	VECTORIZE: Vectorize;
+	AI: Ai;
+	EMBEDDING_MODEL?: string;
+	OPENROUTER_API_KEY: string;
+	messageId: KVNamespace;
+	IMAGES: R2Bucket;
+	CHAT_SESSIONS: DurableObjectNamespace<ChatSession>;
+	// Per-user usage counters (src/usage.ts) and the keyword index of memory text (src/keyword.ts)
+	DB: D1Database;
+	HISTORY_TOKEN_BUDGET?: string;
+	LLM_PROVIDERS?: string;
+	LLM_MAX_RETRIES?: string;
+	LLM_RETRY_BASE_DELAY_MS?: string;
+	OPENROUTER_MODEL?: string;
+	OPENROUTER_VISION_MODEL?: string;
+	WORKERS_AI_MODEL?: string;
+	OPENAI_COMPATIBLE_BASE_URL?: string;
+	OPENAI_COMPATIBLE_API_KEY?: string;
+	OPENAI_COMPATIBLE_MODEL?: string;
+	FACT_EXTRACTION?: string;
+	MEMORY_TYPE_WEIGHTS?: string;
+	MEMORY_DEDUP_THRESHOLD?: string;
+	MEMORY_CONFLICT_THRESHOLD?: string;
+	MEMORY_CONFLICT_RESOLUTION?: string;
+	MEMORY_SEARCH_MODE?: string;
+	MEMORY_TOP_K?: string;
+	MEMORY_CANDIDATES?: string;
+	MEMORY_MIN_SCORE?: string;
+	MEMORY_RECENCY_HALF_LIFE_DAYS?: string;
+	MEMORY_RECENCY_WEIGHT?: string;
+	MEMORY_RERANK?: string;
+	MEMORY_RERANK_MODEL?: string;
+	RESPONSE_CACHE?: string;
+	RESPONSE_CACHE_TTL_SECONDS?: string;
+	RESPONSE_CACHE_SIMILARITY?: string;
+	ADMIN_API_TOKEN?: string;
+	RATE_LIMIT_PER_MINUTE?: string;
+	DAILY_TOKEN_QUOTA?: string;
+	IMAGE_CAPTION_MODEL?: string;
+	DOCUMENT_CHUNK_SIZE?: string;
+	DOCUMENT_CHUNK_OVERLAP?: string;
+	LOG_LEVEL?: string;
+	// Not a binding: the request's logger, set by the fetch handler (see src/log.ts)
+	log?: Logger;
+}
+
+// Vars arrive as strings; fall back to the default when one is unset or not a number.
+export function parseNumber(value: string | undefined, fallback: number): number {
+	const parsed = parseFloat(value || "");
+	return Number.isFinite(parsed) ? parsed : fallback;
+}
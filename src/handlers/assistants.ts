@@ -0,0 +1,130 @@
+import {
+	assistantMemoryScope,
+	createUserAssistant,
+	DEFAULT_MEMORY_TEMPLATE,
+	DEFAULT_SYSTEM_PROMPT,
+	deleteUserAssistant,
+	getUserAssistant,
+	listUserAssistants,
+	MAX_ASSISTANTS_PER_USER,
+	MEMORY_TEMPLATE_PLACEHOLDER,
+	updateUserAssistant,
+	type AssistantProfile,
+	type AssistantSettings,
+} from "../assistants";
+import type { AuthedContext } from "../auth";
+import { ApiError, jsonResponse } from "../http";
+import { deleteScopedMemories } from "../memory";
+import { boolean, nullable, number, object, optional, parseBody, string } from "../validation";
+
+const temperature = number({ min: 0, max: 2 });
+const maxTokens = number({ integer: true, min: 1, max: 32768 });
+
+const assistantFields = {
+	systemPrompt: optional(string({ trim: true, maxLength: 8000 })),
+	memoryTemplate: optional(string({
+		trim: true,
+		maxLength: 2000,
+		pattern: /\{\{memories\}\}/,
+		patternMessage: `must contain ${MEMORY_TEMPLATE_PLACEHOLDER}`
+	})),
+	// "" on update goes back to the configured model
+	model: optional(string({ trim: true, maxLength: 200 })),
+	temperature: optional(temperature),
+	maxTokens: optional(maxTokens),
+};
+
+const createAssistantSchema = object({
+	name: string({ trim: true, minLength: 1, maxLength: 100 }),
+	...assistantFields,
+	isolatedMemory: optional(boolean()),
+});
+
+// Whether memory is isolated is fixed at creation; switching would strand what was remembered.
+// null clears temperature and maxTokens, going back to the provider's defaults.
+const updateAssistantSchema = object({
+	name: optional(string({ trim: true, minLength: 1, maxLength: 100 })),
+	...assistantFields,
+	temperature: nullable(temperature),
+	maxTokens: nullable(maxTokens),
+});
+
+async function requireAssistant(c: AuthedContext): Promise<AssistantProfile> {
+	const profile = await getUserAssistant(c.env, c.principal.userId, c.params.id);
+	if (!profile) {
+		throw new ApiError(404, "not_found", "Assistant not found");
+	}
+	return profile;
+}
+
+// Drop settings left empty, so they fall back to the defaults.
+function withoutEmptySettings(settings: AssistantSettings): AssistantSettings {
+	const result: AssistantSettings = { ...settings };
+	if (!result.model) {
+		delete result.model;
+	}
+	for (const key of ["temperature", "maxTokens"] as const) {
+		if (result[key] === undefined) {
+			delete result[key];
+		}
+	}
+	return result;
+}
+
+// GET /api/assistants
+export async function listAssistants(c: AuthedContext): Promise<Response> {
+	const assistants = await listUserAssistants(c.env, c.principal.userId);
+	return jsonResponse({ assistants, count: assistants.length });
+}
+
+// POST /api/assistants { name, systemPrompt?, memoryTemplate?, model?, temperature?, maxTokens?, isolatedMemory? }
+export async function createAssistant(c: AuthedContext): Promise<Response> {
+	const body = await parseBody(c.request, createAssistantSchema);
+	const existing = await listUserAssistants(c.env, c.principal.userId);
+	if (existing.length >= MAX_ASSISTANTS_PER_USER) {
+		throw new ApiError(409, "conflict", `At most ${MAX_ASSISTANTS_PER_USER} assistants per user`);
+	}
+
+	const profile = await createUserAssistant(c.env, c.principal.userId, withoutEmptySettings({
+		name: body.name,
+		systemPrompt: body.systemPrompt ?? DEFAULT_SYSTEM_PROMPT,
+		memoryTemplate: body.memoryTemplate ?? DEFAULT_MEMORY_TEMPLATE,
+		model: body.model,
+		temperature: body.temperature,
+		maxTokens: body.maxTokens,
+		isolatedMemory: body.isolatedMemory ?? false
+	}));
+	return jsonResponse(profile, { status: 201 });
+}
+
+// GET /api/assistants/:id
+export async function getAssistant(c: AuthedContext): Promise<Response> {
+	return jsonResponse(await requireAssistant(c));
+}
+
+// PATCH /api/assistants/:id: only the settings given change, and those given as null are unset
+export async function updateAssistant(c: AuthedContext): Promise<Response> {
+	const existing = await requireAssistant(c);
+	const body = await parseBody(c.request, updateAssistantSchema);
+
+	const profile = await updateUserAssistant(c.env, c.principal.userId, existing, withoutEmptySettings({
+		name: body.name ?? existing.name,
+		systemPrompt: body.systemPrompt ?? existing.systemPrompt,
+		memoryTemplate: body.memoryTemplate ?? existing.memoryTemplate,
+		model: body.model ?? existing.model,
+		temperature: body.temperature === undefined ? existing.temperature : body.temperature ?? undefined,
+		maxTokens: body.maxTokens === undefined ? existing.maxTokens : body.maxTokens ?? undefined,
+		isolatedMemory: existing.isolatedMemory
+	}));
+	return jsonResponse(profile);
+}
+
+// DELETE /api/assistants/:id: an isolated assistant's memories go with it
+export async function deleteAssistant(c: AuthedContext): Promise<Response> {
+	const profile = await requireAssistant(c);
+	const deleted = profile.isolatedMemory
+		? await deleteScopedMemories(c.env, assistantMemoryScope({ userId: c.principal.userId }, profile))
+		: [];
+	await deleteUserAssistant(c.env, c.principal.userId, profile.id);
+	return jsonResponse({ message: "Assistant deleted", id: profile.id, deletedMemories: deleted.length });
+}
@@ -0,0 +1,164 @@
+import { getMemoryScope, type AuthedContext } from "../auth";
+import { cacheResponse, findCachedResponse, getResponseCacheContext, isResponseCacheEnabled, type CachedResponse } from "../cache";
+import { appendExchange, chatRequestSchema, chatResult, completeReply, prepareChat, rememberChatExchange, streamReply, userTurn, type ChatRequest } from "../chat";
+import { appendConversationTurns, type ConversationTurn } from "../history";
+import { ApiError, errorBody, jsonResponse, toApiError } from "../http";
+import { getLogger } from "../log";
+import type { MemoryScope } from "../memory";
+import { beginSessionTurn, forwardToSession, type SessionTurn } from "../session";
+import { parseBody } from "../validation";
+
+function formatSseEvent(event: string, data: unknown): string {
+	return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Answer from the response cache. The exchange still goes into the transcript, but is not
+// remembered again, and costs no tokens.
+async function answerFromCache(c: AuthedContext, scope: MemoryScope, body: ChatRequest, cached: CachedResponse, wantsStream: boolean, turn: SessionTurn | null): Promise<Response> {
+	const conversationId = scope.conversationId || crypto.randomUUID();
+	const result = { ...cached.result, conversationId };
+	const now = new Date().toISOString();
+	const turns: ConversationTurn[] = [
+		{ role: "user", content: body.message || body.text || "", timestamp: now },
+		{ role: "assistant", content: result.message, timestamp: now }
+	];
+	turn?.publish({ type: "user_message", turn: turns[0] });
+	turn?.publish({ type: "done", ...result });
+	try {
+		await appendConversationTurns(c.env, scope.userId, conversationId, turns);
+	} catch (error) {
+		getLogger(c.env).error("history_store_failed", { conversationId, error });
+	}
+	await turn?.end(turns);
+
+	const headers = { "X-Cache": "HIT", "Age": String(cached.ageSeconds) };
+	if (wantsStream) {
+		return new Response(formatSseEvent("token", { token: result.message }) + formatSseEvent("done", result), {
+			headers: { "content-type": "text/event-stream", "cache-control": "no-cache", ...headers }
+		});
+	}
+	return jsonResponse(result, { headers });
+}
+
+// POST /api/chat: answer as the chosen assistant, using its memories and the recent turns of
+// the conversation as context. Streams Server-Sent Events when asked to. With RESPONSE_CACHE on,
+// the X-Cache header tells whether the answer came from the cache (HIT), was cached (MISS), or
+// the cache was skipped (BYPASS).
+export async function handleChat(c: AuthedContext): Promise<Response> {
+	const { env, request, principal } = c;
+	const body = await parseBody(request, chatRequestSchema);
+	const scope = getMemoryScope(c, body);
+	const wantsStream = body.stream === true || (request.headers.get("Accept") || "").includes("text/event-stream");
+
+	// A message to a conversation waits for its turn in the conversation's session, so that it is
+	// answered in order with those sent over the session's WebSocket and shows in every open tab
+	const turn = scope.conversationId ? await beginSessionTurn(env, principal, scope.conversationId) : null;
+	try {
+		return await answerChat(c, scope, body, wantsStream, turn);
+	} catch (error) {
+		await turn?.end([]);
+		throw error;
+	}
+}
+
+// Answer the message, ending its session turn, if any, once the exchange is recorded
+async function answerChat(c: AuthedContext, scope: MemoryScope, body: ChatRequest, wantsStream: boolean, turn: SessionTurn | null): Promise<Response> {
+	const { env, ctx, principal } = c;
+	const cache = await getResponseCacheContext(env, scope, body);
+	const cached = cache ? await findCachedResponse(env, cache) : null;
+	if (cached) {
+		return answerFromCache(c, scope, body, cached, wantsStream, turn);
+	}
+	const cacheHeaders: Record<string, string> = cache ? { "X-Cache": "MISS" } : isResponseCacheEnabled(env) ? { "X-Cache": "BYPASS" } : {};
+
+	const chat = await prepareChat(env, principal, scope, body, turn?.transcript);
+	turn?.publish({ type: "user_message", turn: userTurn(chat) });
+	for (const invocation of chat.agent?.toolLog ?? []) {
+		turn?.publish({ type: "tool", ...invocation });
+	}
+
+	// Streaming mode: relay tokens as Server-Sent Events and store the memory once the stream ends
+	if (wantsStream) {
+		const tokens = streamReply(chat);
+		// Pull the first token before responding so upstream failures still surface as an error response
+		const first = await tokens.next();
+		const { readable, writable } = new TransformStream<string, string>();
+		const writer = writable.getWriter();
+
+		ctx.waitUntil((async () => {
+			let reply = "";
+			let finished = false;
+			try {
+				for (const invocation of chat.agent?.toolLog ?? []) {
+					await writer.write(formatSseEvent("tool", invocation));
+				}
+				if (!first.done) {
+					reply += first.value;
+					turn?.publish({ type: "token", token: first.value });
+					await writer.write(formatSseEvent("token", { token: first.value }));
+					for await (const token of tokens) {
+						reply += token;
+						turn?.publish({ type: "token", token });
+						await writer.write(formatSseEvent("token", { token }));
+					}
+				}
+				turn?.publish({ type: "done", ...chatResult(chat, reply) });
+				await writer.write(formatSseEvent("done", chatResult(chat, reply)));
+				finished = true;
+			} catch (streamError) {
+				getLogger(env).error("stream_failed", { route: "chat", error: streamError });
+				await writer.write(formatSseEvent("error", errorBody(toApiError(streamError))));
+			} finally {
+				await writer.close();
+			}
+
+			// The next message to the conversation waits only for the transcript, not for memories
+			let turns: ConversationTurn[] = [];
+			try {
+				if (reply) {
+					turns = await appendExchange(env, chat, reply);
+				}
+			} finally {
+				await turn?.end(turns);
+			}
+			if (reply) {
+				await rememberChatExchange(env, principal, chat, reply);
+				// A reply cut short by an error is kept in the transcript but never served again
+				if (cache && finished) {
+					await cacheResponse(env, cache, chatResult(chat, reply));
+				}
+			}
+		})());
+
+		return new Response(readable.pipeThrough(new TextEncoderStream()), {
+			headers: {
+				"content-type": "text/event-stream",
+				"cache-control": "no-cache",
+				...cacheHeaders
+			}
+		});
+	}
+
+	const response = await completeReply(chat);
+	const result = chatResult(chat, response);
+	turn?.publish({ type: "done", ...result });
+	await turn?.end(await appendExchange(env, chat, response));
+	await rememberChatExchange(env, principal, chat, response);
+	if (cache && response) {
+		ctx.waitUntil(cacheResponse(env, cache, result));
+	}
+	return jsonResponse(result, { headers: cacheHeaders });
+}
+
+// GET /api/chat/session?conversationId= with a WebSocket upgrade: join the conversation's live
+// session (see ChatSession). Browsers pass the API key as a "bearer.<key>" subprotocol.
+export async function openChatSession(c: AuthedContext): Promise<Response> {
+	if ((c.request.headers.get("Upgrade") || "").toLowerCase() !== "websocket") {
+		throw new ApiError(426, "upgrade_required", "Expected a WebSocket upgrade", { headers: { Upgrade: "websocket" } });
+	}
+	const scope = getMemoryScope(c);
+	if (!scope.conversationId) {
+		throw new ApiError(400, "validation_failed", "Conversation ID is required", { fields: [{ field: "conversationId", message: "is required" }] });
+	}
+	return forwardToSession(c.env, c.request, c.principal, scope.conversationId);
+}
@@ -0,0 +1,88 @@
+import { getMemoryScope, type AuthedContext } from "../auth";
+import {
+	deleteUserDocument,
+	DOCUMENT_CONTENT_TYPES,
+	documentError,
+	getUserDocument,
+	ingestDocument,
+	listUserDocuments,
+	MAX_DOCUMENT_NAME_LENGTH,
+	resolveDocumentContentType,
+} from "../documents";
+import { ApiError, jsonResponse } from "../http";
+
+function checkDocumentName(name: string, field: string): string {
+	const trimmed = name.trim();
+	if (!trimmed) {
+		throw documentError(field, "must not be empty");
+	}
+	if (trimmed.length > MAX_DOCUMENT_NAME_LENGTH) {
+		throw documentError(field, `must be at most ${MAX_DOCUMENT_NAME_LENGTH} characters`);
+	}
+	return trimmed;
+}
+
+// Upload a document: POST /api/documents?name= with the raw file as the body, or as the "file"
+// field of a multipart form (named after the file unless ?name= is given). Accepts plain text,
+// Markdown, HTML and PDF; the document is chunked into "document" memories that chat can cite.
+export async function uploadDocument(c: AuthedContext): Promise<Response> {
+	const scope = getMemoryScope(c);
+	const contentType = (c.request.headers.get("Content-Type") || "").split(";")[0].trim().toLowerCase();
+	const nameParam = c.url.searchParams.get("name");
+
+	let bytes: ArrayBuffer;
+	let declaredType: string;
+	let name: string;
+	let field: string;
+	if (contentType === "multipart/form-data") {
+		const form = await c.request.formData();
+		const file = form.get("file");
+		if (!file || typeof file === "string") {
+			throw documentError("file", "is required");
+		}
+		bytes = await file.arrayBuffer();
+		declaredType = file.type.split(";")[0].trim().toLowerCase();
+		name = checkDocumentName(nameParam ?? (file.name || "Untitled document"), nameParam === null ? "file" : "name");
+		field = "file";
+	} else {
+		bytes = await c.request.arrayBuffer();
+		declaredType = contentType;
+		name = checkDocumentName(nameParam ?? "Untitled document", "name");
+		field = "body";
+	}
+
+	const documentType = resolveDocumentContentType(declaredType, name);
+	if (!documentType) {
+		throw documentError(field, `must be one of: ${DOCUMENT_CONTENT_TYPES.join(", ")}`);
+	}
+	const document = await ingestDocument(c.env, scope, bytes, documentType, name, field);
+	return jsonResponse(document, { status: 201 });
+}
+
+// GET /api/documents?cursor=
+export async function listDocuments(c: AuthedContext): Promise<Response> {
+	const page = await listUserDocuments(c.env, getMemoryScope(c), c.url.searchParams.get("cursor"));
+	return jsonResponse({
+		documents: page.documents,
+		count: page.documents.length,
+		nextCursor: page.nextCursor
+	});
+}
+
+// GET /api/documents/:id
+export async function getDocument(c: AuthedContext): Promise<Response> {
+	const document = await getUserDocument(c.env, c.principal.userId, c.params.id);
+	if (!document) {
+		throw new ApiError(404, "not_found", "Document not found");
+	}
+	return jsonResponse(document);
+}
+
+// DELETE /api/documents/:id: the document and all of its chunks
+export async function deleteDocument(c: AuthedContext): Promise<Response> {
+	const document = await deleteUserDocument(c.env, c.principal.userId, c.params.id);
+	if (!document) {
+		throw new ApiError(404, "not_found", "Document not found");
+	}
+	return jsonResponse({ message: "Document deleted", id: document.id, deletedChunks: document.chunkCount });
+}
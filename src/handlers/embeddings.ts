@@ -0,0 +1,37 @@
+import { getEmbeddingMigration, getEmbeddingModel, getQueryEmbeddingModels, type EmbeddingMigration } from "../embeddings";
+import { jsonResponse } from "../http";
+import { runEmbeddingMigrationBatch } from "../memory";
+import type { RequestContext } from "../router";
+
+// Fraction of the index scanned; vectorCount is approximate, so this is a rough guide
+function progressOf(migration: EmbeddingMigration | null): number | null {
+	if (!migration) {
+		return null;
+	}
+	if (migration.status === "completed") {
+		return 1;
+	}
+	return migration.total > 0 ? Math.min(1, migration.scanned / migration.total) : 0;
+}
+
+// Admin only: GET /api/embeddings, the configured model and the re-embedding progress
+export async function getEmbeddingStatus(c: RequestContext): Promise<Response> {
+	const migration = await getEmbeddingMigration(c.env);
+	return jsonResponse({
+		model: getEmbeddingModel(c.env),
+		// Models queries currently embed with; two while a migration is incomplete
+		queryModels: await getQueryEmbeddingModels(c.env),
+		migration,
+		progress: progressOf(migration)
+	});
+}
+
+// Admin only: POST /api/embeddings/migrate, run one re-embedding batch now instead of waiting for the cron
+export async function migrateEmbeddings(c: RequestContext): Promise<Response> {
+	const migration = await runEmbeddingMigrationBatch(c.env);
+	return jsonResponse({
+		model: getEmbeddingModel(c.env),
+		migration,
+		progress: progressOf(migration)
+	});
+}
@@ -0,0 +1,22 @@
+import { getMemoryScope, type AuthedContext } from "../auth";
+import { getConversationTurns, listConversations } from "../history";
+import { jsonResponse } from "../http";
+
+// GET /api/history lists the user's conversations; with ?conversationId= it returns one transcript.
+export async function getHistory(c: AuthedContext): Promise<Response> {
+	const scope = getMemoryScope(c);
+	if (scope.conversationId) {
+		const turns = await getConversationTurns(c.env, scope.userId, scope.conversationId);
+		return jsonResponse({
+			conversationId: scope.conversationId,
+			messages: turns,
+			count: turns.length
+		});
+	}
+
+	const conversations = await listConversations(c.env, scope.userId);
+	return jsonResponse({
+		conversations,
+		count: conversations.length
+	});
+}
@@ -0,0 +1,37 @@
+import { getMemoryScope, type AuthedContext } from "../auth";
+import { ApiError, jsonResponse } from "../http";
+import { getUserImage, ingestImage } from "../images";
+
+// Upload an image: POST /api/images with the raw image as the body (Content-Type image/*),
+// or as the "image" field of a multipart form. The returned ID can be passed to /api/chat.
+export async function uploadImage(c: AuthedContext): Promise<Response> {
+	const scope = getMemoryScope(c);
+	const contentType = (c.request.headers.get("Content-Type") || "").split(";")[0].trim().toLowerCase();
+
+	let image;
+	if (contentType === "multipart/form-data") {
+		const form = await c.request.formData();
+		const file = form.get("image");
+		if (!file || typeof file === "string") {
+			throw new ApiError(400, "validation_failed", "Invalid image", { fields: [{ field: "image", message: "is required" }] });
+		}
+		image = await ingestImage(c.env, scope, await file.arrayBuffer(), file.type.toLowerCase(), "image");
+	} else {
+		image = await ingestImage(c.env, scope, await c.request.arrayBuffer(), contentType, "body");
+	}
+	return jsonResponse({ ...image, url: `/api/images/${image.id}` }, { status: 201 });
+}
+
+// GET /api/images/:id
+export async function getImage(c: AuthedContext): Promise<Response> {
+	const object = await getUserImage(c.env, c.principal.userId, c.params.id);
+	if (!object) {
+		throw new ApiError(404, "not_found", "Image not found");
+	}
+	return new Response(object.body, {
+		headers: {
+			"content-type": object.httpMetadata?.contentType || "application/octet-stream",
+			"cache-control": "private, max-age=86400"
+		}
+	});
+}
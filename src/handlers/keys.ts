@@ -0,0 +1,48 @@
+import { ASSISTANT_NAMESPACE_PREFIX } from "../assistants";
+import { createApiKey, revokeApiKey, type ApiKeyRecord } from "../auth";
+import { ApiError, jsonResponse } from "../http";
+import { SCOPE_ID_PATTERN } from "../memory";
+import type { RequestContext } from "../router";
+import { number, object, optional, parseBody, string } from "../validation";
+
+const createKeySchema = object({
+	userId: string({ pattern: SCOPE_ID_PATTERN, patternMessage: "must be letters, digits, '-' or '_', up to 48 characters" }),
+	name: optional(string({ maxLength: 100 })),
+	rateLimitPerMinute: optional(number({ integer: true, min: 0 })),
+	dailyTokenQuota: optional(number({ integer: true, min: 0 })),
+});
+
+// Admin only: POST /api/keys { userId, name?, rateLimitPerMinute?, dailyTokenQuota? }
+export async function createKey(c: RequestContext): Promise<Response> {
+	const body = await parseBody(c.request, createKeySchema);
+	if (body.userId.startsWith(ASSISTANT_NAMESPACE_PREFIX)) {
+		throw new ApiError(400, "validation_failed", "Request validation failed", {
+			fields: [{ field: "userId", message: `must not start with '${ASSISTANT_NAMESPACE_PREFIX}', which is reserved for assistant memory` }]
+		});
+	}
+	const record: ApiKeyRecord = {
+		userId: body.userId,
+		name: body.name ?? "",
+		createdAt: new Date().toISOString()
+	};
+	if (body.rateLimitPerMinute !== undefined) {
+		record.rateLimitPerMinute = body.rateLimitPerMinute;
+	}
+	if (body.dailyTokenQuota !== undefined) {
+		record.dailyTokenQuota = body.dailyTokenQuota;
+	}
+
+	const { key, keyId } = await createApiKey(c.env, record);
+	// The plaintext key is only ever returned here
+	return jsonResponse({ key, keyId, ...record }, { status: 201 });
+}
+
+// Admin only: DELETE /api/keys/:keyId
+export async function deleteKey(c: RequestContext): Promise<Response> {
+	const keyId = c.params.keyId;
+	if (!/^[0-9a-f]{64}$/.test(keyId)) {
+		throw new ApiError(404, "not_found", "API key not found");
+	}
+	await revokeApiKey(c.env, keyId);
+	return jsonResponse({ message: "API key revoked", keyId });
+}
@@ -0,0 +1,312 @@
+import { getAssistantMemoryScope, type AuthedContext } from "../auth";
+import { deleteScopedDocumentRecords } from "../documents";
+import { getEmbeddingModel } from "../embeddings";
+import { ApiError, jsonResponse, type FieldError } from "../http";
+import {
+	DEFAULT_MEMORY_PAGE_SIZE,
+	deleteScopedMemories,
+	deleteUserMemories,
+	describeUsedMemories,
+	editUserMemory,
+	exportUserMemories,
+	getMemoryRevisions,
+	getUserMemory,
+	importUserMemories,
+	isMemoryType,
+	listUserMemories,
+	MAX_IMPORT_RECORDS,
+	MAX_MEMORY_CANDIDATES,
+	MAX_MEMORY_PAGE_SIZE,
+	MEMORY_SEARCH_MODES,
+	MEMORY_TYPES,
+	pinUserMemory,
+	SCOPE_ID_PATTERN,
+	searchMemories,
+	storeUserMemory,
+	toMemoryRecord,
+	type MemoryImportRecord,
+	type MemoryScope,
+	type VectorizeVector,
+} from "../memory";
+import { array, boolean, number, object, oneOf, optional, parseBody, string } from "../validation";
+
+const addMemorySchema = object({
+	text: string({ trim: true, minLength: 1 }),
+	type: optional(oneOf(MEMORY_TYPES)),
+});
+
+// A date covers its whole day; timestamps are UTC
+const dateBound = () => optional(string({
+	pattern: /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?Z)?$/,
+	patternMessage: "must be a date like 2025-01-31 or a UTC timestamp like 2025-01-31T09:30:00Z"
+}));
+
+const utcTimestamp = () => optional(string({
+	pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d{1,3})?)?Z$/,
+	patternMessage: "must be a UTC timestamp like 2025-01-31T09:30:00Z"
+}));
+
+const searchMemorySchema = object({
+	query: string({ trim: true, minLength: 1 }),
+	mode: optional(oneOf(MEMORY_SEARCH_MODES)),
+	topK: optional(number({ integer: true, min: 1, max: MAX_MEMORY_CANDIDATES })),
+	minScore: optional(number()),
+	types: optional(array(oneOf(MEMORY_TYPES))),
+	conversationId: optional(string()),
+	from: dateBound(),
+	to: dateBound(),
+	rerank: optional(boolean()),
+	assistantId: optional(string()),
+});
+
+const editMemorySchema = object({
+	text: optional(string({ trim: true, minLength: 1 })),
+	type: optional(oneOf(MEMORY_TYPES)),
+	// Pinned memories are never removed by the retention policy
+	pinned: optional(boolean()),
+});
+
+// One line of an import, as written by GET /api/memory/export
+const importRecordSchema = object({
+	id: optional(string()),
+	text: string({ trim: true, minLength: 1 }),
+	type: oneOf(MEMORY_TYPES),
+	timestamp: utcTimestamp(),
+	revision: optional(number({ integer: true, min: 1 })),
+	conversationId: optional(string({ pattern: SCOPE_ID_PATTERN, patternMessage: "must be letters, digits, '-' or '_', up to 48 characters" })),
+	imageId: optional(string()),
+	document: optional(object({
+		documentId: string({ minLength: 1 }),
+		source: string(),
+		offset: number({ integer: true, min: 0 }),
+	})),
+	pinned: optional(boolean()),
+	embeddingModel: optional(string()),
+	values: optional(array(number())),
+});
+
+// Load the memory named in the path, or answer 404 when the scope has no such memory.
+async function requireMemory(c: AuthedContext, scope: MemoryScope): Promise<VectorizeVector> {
+	const memory = await getUserMemory(c.env, scope, c.params.id);
+	if (!memory) {
+		throw new ApiError(404, "not_found", "Memory not found");
+	}
+	return memory;
+}
+
+// GET /api/memory?cursor=&limit=&assistantId=. Every memory endpoint takes assistantId to work on
+// the memory of an assistant with isolatedMemory instead of the user's own.
+export async function listMemories(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const cursor = c.url.searchParams.get("cursor");
+	const limit = Math.min(MAX_MEMORY_PAGE_SIZE, Math.max(1, parseInt(c.url.searchParams.get("limit") || "") || DEFAULT_MEMORY_PAGE_SIZE));
+
+	const page = await listUserMemories(c.env, scope, cursor, limit);
+	return jsonResponse({
+		memories: page.memories,
+		count: page.memories.length,
+		nextCursor: page.nextCursor
+	});
+}
+
+// Manually add a memory: POST /api/memory { text, type? }
+export async function addMemory(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const body = await parseBody(c.request, addMemorySchema);
+
+	const [stored] = await storeUserMemory(c.env, scope, [{ text: body.text, type: body.type ?? "fact" }]);
+	return jsonResponse(stored, { status: stored.action === "inserted" ? 201 : 200 });
+}
+
+// Turn a validated date bound into the ISO timestamp memories are compared with. A date starts
+// at midnight when it is the lower bound and runs to the end of its day when it is the upper one.
+function toTimestamp(value: string | undefined, field: string, endOfDay: boolean, errors: FieldError[]): string | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	const time = Date.parse(value);
+	if (!Number.isFinite(time)) {
+		errors.push({ field, message: "must be a valid date" });
+		return undefined;
+	}
+	return new Date(value.length === 10 && endOfDay ? time + 24 * 60 * 60 * 1000 - 1 : time).toISOString();
+}
+
+// Memory search: POST /api/memory/search { query, mode?, topK?, minScore?, types?, conversationId?, from?, to?, rerank?, assistantId? }
+// mode is "vector", "keyword" or "hybrid", by default MEMORY_SEARCH_MODE; the filters apply in every mode.
+export async function searchMemory(c: AuthedContext): Promise<Response> {
+	const body = await parseBody(c.request, searchMemorySchema);
+	const scope = await getAssistantMemoryScope(c, body);
+
+	const errors: FieldError[] = [];
+	const from = toTimestamp(body.from, "from", false, errors);
+	const to = toTimestamp(body.to, "to", true, errors);
+	if (from && to && from > to) {
+		errors.push({ field: "from", message: "must be on or before \"to\"" });
+	}
+	if (errors.length > 0) {
+		throw new ApiError(400, "validation_failed", "Request validation failed", { fields: errors });
+	}
+
+	const results = await searchMemories(c.env, scope, body.query, {
+		mode: body.mode,
+		types: body.types,
+		conversationId: scope.conversationId,
+		from,
+		to,
+		topK: body.topK,
+		minScore: body.minScore,
+		rerank: body.rerank
+	});
+	return jsonResponse({
+		results: describeUsedMemories(results),
+		count: results.length
+	});
+}
+
+// Revision history of a single memory: GET /api/memory/:id/revisions
+export async function getMemoryRevisionHistory(c: AuthedContext): Promise<Response> {
+	const memory = await requireMemory(c, await getAssistantMemoryScope(c));
+	const revisions = await getMemoryRevisions(c.env, memory.id);
+	return jsonResponse({
+		id: memory.id,
+		current: {
+			revision: memory.metadata?.revision || 1,
+			text: memory.metadata?.memory,
+			type: memory.metadata?.type || "user_message",
+			timestamp: memory.metadata?.timestamp
+		},
+		revisions: revisions.reverse()
+	});
+}
+
+// GET /api/memory/:id
+export async function getMemory(c: AuthedContext): Promise<Response> {
+	return jsonResponse(toMemoryRecord(await requireMemory(c, await getAssistantMemoryScope(c))));
+}
+
+// PATCH /api/memory/:id { text?, type?, pinned? }
+export async function editMemory(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	let memory = await requireMemory(c, scope);
+	const body = await parseBody(c.request, editMemorySchema);
+
+	if (body.text !== undefined || body.type !== undefined) {
+		const text = body.text ?? memory.metadata?.memory ?? "";
+		const type = body.type ?? (isMemoryType(memory.metadata?.type) ? memory.metadata.type : "user_message");
+		memory = await editUserMemory(c.env, scope, memory, text, type);
+	}
+	if (body.pinned !== undefined && body.pinned !== (memory.metadata?.pinned === true)) {
+		memory = await pinUserMemory(c.env, scope, memory, body.pinned);
+	}
+	return jsonResponse(toMemoryRecord(memory));
+}
+
+// DELETE /api/memory/:id
+export async function deleteMemory(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const memory = await requireMemory(c, scope);
+	await deleteUserMemories(c.env, scope.userId, [memory.id]);
+	return jsonResponse({ message: "Memory deleted", id: memory.id });
+}
+
+// DELETE /api/memory: all of the memories in scope, or one conversation's
+export async function deleteMemories(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const deletedIds = await deleteScopedMemories(c.env, scope);
+	// Document chunks went with the memories; forget the documents too
+	await deleteScopedDocumentRecords(c.env, scope);
+	if (deletedIds.length === 0) {
+		return jsonResponse({
+			message: "No memories to delete",
+			deletedCount: 0
+		});
+	}
+	return jsonResponse({
+		message: "Memory deletion completed",
+		deletedIds,
+		deletedCount: deletedIds.length
+	});
+}
+
+// GET /api/memory/export?vectors=true: every memory in scope as JSONL, one memory per line.
+// Vectors are left out unless asked for; an import re-embeds such records.
+export async function exportMemories(c: AuthedContext): Promise<Response> {
+	const records = exportUserMemories(c.env, await getAssistantMemoryScope(c), c.url.searchParams.get("vectors") === "true");
+	// Read the first page before responding so storage failures still get an error response
+	let next = await records.next();
+	const encoder = new TextEncoder();
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			if (next.done) {
+				controller.close();
+				return;
+			}
+			controller.enqueue(encoder.encode(JSON.stringify(next.value) + "\n"));
+			next = await records.next();
+		}
+	});
+	return new Response(body, {
+		headers: {
+			"content-type": "application/x-ndjson",
+			"content-disposition": `attachment; filename="memories-${new Date().toISOString().slice(0, 10)}.jsonl"`
+		}
+	});
+}
+
+// POST /api/memory/import with a JSONL export as the body. Records are validated together and
+// nothing is written unless all of them are valid; importing the same file again is a no-op.
+// Vectors of the current embedding model are kept, so they must fit the index; any others are
+// re-embedded.
+export async function importMemories(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const lines = (await c.request.text()).split("\n");
+
+	const errors: FieldError[] = [];
+	const records: MemoryImportRecord[] = [];
+	// The line of each record, for naming it in errors
+	const recordLines: number[] = [];
+	lines.forEach((line, i) => {
+		if (!line.trim()) {
+			return;
+		}
+		let value: unknown;
+		try {
+			value = JSON.parse(line);
+		} catch {
+			errors.push({ field: `lines[${i}]`, message: "must be valid JSON" });
+			return;
+		}
+		const record = importRecordSchema(value, `lines[${i}]`, errors);
+		// Stored like the timestamps of new memories, so date filters compare them alike
+		record.timestamp = toTimestamp(record.timestamp, `lines[${i}].timestamp`, false, errors);
+		records.push(record);
+		recordLines.push(i);
+	});
+	if (records.length > MAX_IMPORT_RECORDS) {
+		throw new ApiError(400, "validation_failed", "Import too large", {
+			fields: [{ field: "body", message: `must have at most ${MAX_IMPORT_RECORDS} records; split the file` }]
+		});
+	}
+	const model = getEmbeddingModel(c.env);
+	const kept = records.flatMap((record, i) => record.values?.length && record.embeddingModel === model ? [{ record, line: recordLines[i] }] : []);
+	if (kept.length > 0) {
+		const { dimensions } = await c.env.VECTORIZE.describe();
+		for (const { record, line } of kept) {
+			if (record.values!.length !== dimensions) {
+				errors.push({ field: `lines[${line}].values`, message: `must have ${dimensions} dimensions, like the index` });
+			}
+		}
+	}
+	if (errors.length > 0) {
+		throw new ApiError(400, "validation_failed", "Import validation failed", { fields: errors });
+	}
+
+	const result = await importUserMemories(c.env, scope, records);
+	return jsonResponse({
+		message: "Memory import completed",
+		importedCount: result.ids.length,
+		reembeddedCount: result.reembedded,
+		ids: result.ids
+	});
+}
@@ -0,0 +1,200 @@
+import { assistantLlmOptions, assistantMemoryScope, buildSystemPrompt, listUserAssistants, type AssistantProfile } from "../assistants";
+import { checkTokenQuota, getMemoryScope, type AuthedContext } from "../auth";
+import type { Env } from "../env";
+import { ApiError, errorBody, jsonResponse, toApiError } from "../http";
+import { createLlmClient, type OpenRouterMessage } from "../llm";
+import { getLogger } from "../log";
+import { formatMemoryForPrompt, getMemoryByChat, rememberExchange } from "../memory";
+import { recordLlmUsage } from "../usage";
+import { array, boolean, number, object, oneOf, optional, parseBody, string, type Validator } from "../validation";
+
+// The worker exposes its provider chain as one model, and each of the user's assistants as a
+// model named after it. Which upstream model answers is decided by LLM_PROVIDERS and the
+// assistant, not by the client; unknown model names get the default.
+const MODEL_ID = "chatbot-with-memory";
+// Fixed so that GET /v1/models is stable across requests
+const MODEL_CREATED = 1735689600;
+
+const contentPartSchema = object({
+	type: oneOf(["text", "image_url"] as const),
+	text: optional(string()),
+	image_url: optional(object({ url: string() })),
+});
+
+// Message content is either a string or an array of content parts.
+function messageContent(): Validator<OpenRouterMessage["content"]> {
+	const parts = array(contentPartSchema, { minItems: 1 });
+	return (value, field, errors) => {
+		if (typeof value === "string") {
+			return value;
+		}
+		if (!Array.isArray(value)) {
+			errors.push({ field, message: "must be a string or an array of content parts" });
+			return "";
+		}
+		return parts(value, field, errors);
+	};
+}
+
+const chatCompletionSchema = object({
+	model: string({ minLength: 1 }),
+	messages: array(object({
+		role: oneOf(["system", "user", "assistant"] as const),
+		content: messageContent(),
+	}), { minItems: 1 }),
+	stream: optional(boolean()),
+	temperature: optional(number({ min: 0, max: 2 })),
+	max_tokens: optional(number({ integer: true, min: 1, max: 32768 })),
+});
+
+function contentText(content: OpenRouterMessage["content"]): string {
+	return typeof content === "string" ? content : content.map((part) => part.text || "").join("\n");
+}
+
+function hasImagePart(message: { content: OpenRouterMessage["content"] }): boolean {
+	return typeof message.content !== "string" && message.content.some((part) => part.type === "image_url");
+}
+
+function formatSseData(data: unknown): string {
+	return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+// The assistant a model name stands for, matched case-insensitively, or null for the default
+async function findAssistantModel(env: Env, userId: string, model: string): Promise<AssistantProfile | null> {
+	if (model === MODEL_ID) {
+		return null;
+	}
+	const name = model.trim().toLowerCase();
+	return (await listUserAssistants(env, userId)).find((assistant) => assistant.name.trim().toLowerCase() === name) ?? null;
+}
+
+// GET /v1/models: the default model, then the user's assistants
+export async function listModels(c: AuthedContext): Promise<Response> {
+	const assistants = await listUserAssistants(c.env, c.principal.userId);
+	return jsonResponse({
+		object: "list",
+		data: [
+			{ id: MODEL_ID, object: "model", created: MODEL_CREATED, owned_by: "chatbot-with-memory" },
+			...assistants.map((assistant) => ({
+				id: assistant.name,
+				object: "model",
+				created: Math.floor(Date.parse(assistant.createdAt) / 1000),
+				owned_by: c.principal.userId
+			}))
+		]
+	});
+}
+
+// POST /v1/chat/completions: the OpenAI chat completions protocol, with the user's memories
+// relevant to the last user message injected as a system message. The last user message and
+// the reply are stored as memories once the reply is complete. A model naming one of the
+// user's assistants answers with its persona, memory and settings; temperature and max_tokens
+// from the request take precedence over the assistant's.
+export async function createChatCompletion(c: AuthedContext): Promise<Response> {
+	const { env, ctx, principal } = c;
+	const body = await parseBody(c.request, chatCompletionSchema);
+	const assistant = await findAssistantModel(env, principal.userId, body.model);
+	const scope = assistant ? assistantMemoryScope(getMemoryScope(c), assistant) : getMemoryScope(c);
+	const model = assistant ? assistant.name : MODEL_ID;
+
+	const lastUserMessage = [...body.messages].reverse().find((message) => message.role === "user");
+	const userMessage = lastUserMessage ? contentText(lastUserMessage.content) : "";
+	if (!userMessage.trim()) {
+		throw new ApiError(400, "validation_failed", "A user message is required", { fields: [{ field: "messages", message: "must include a user message with text" }] });
+	}
+
+	await checkTokenQuota(env, principal);
+
+	const memories = await getMemoryByChat(env, scope, userMessage);
+	const messages: OpenRouterMessage[] = body.messages.map((message) => ({ role: message.role, content: message.content }));
+	const memoryPrompt = assistant
+		? buildSystemPrompt(assistant, memories.map(formatMemoryForPrompt))
+		: memories.length > 0 && `Long-term memory about the user, to use as reference when relevant:\n\n${memories.map(formatMemoryForPrompt).join("\n\n")}`;
+	if (memoryPrompt) {
+		// Keep the client's own system messages first
+		const firstTurn = messages.findIndex((message) => message.role !== "system");
+		messages.splice(firstTurn === -1 ? messages.length : firstTurn, 0, { role: "system", content: memoryPrompt });
+	}
+
+	const options = assistant ? assistantLlmOptions(assistant) : {};
+	const llm = createLlmClient(env, {
+		...options,
+		temperature: body.temperature ?? options.temperature,
+		maxTokens: body.max_tokens ?? options.maxTokens,
+		// Images go to OPENROUTER_VISION_MODEL, as they do from /api/chat
+		vision: body.messages.some(hasImagePart)
+	});
+	const id = `chatcmpl-${crypto.randomUUID()}`;
+	const created = Math.floor(Date.now() / 1000);
+
+	if (body.stream) {
+		const tokens = llm.stream(messages);
+		// Pull the first token before responding so upstream failures still surface as an error response
+		const first = await tokens.next();
+		const { readable, writable } = new TransformStream<string, string>();
+		const writer = writable.getWriter();
+		const chunk = (delta: { role?: "assistant"; content?: string }, finishReason: "stop" | null) => formatSseData({
+			id,
+			object: "chat.completion.chunk",
+			created,
+			model,
+			choices: [{ index: 0, delta, finish_reason: finishReason }]
+		});
+
+		ctx.waitUntil((async () => {
+			let reply = "";
+			try {
+				await writer.write(chunk({ role: "assistant", content: "" }, null));
+				if (!first.done) {
+					reply += first.value;
+					await writer.write(chunk({ content: first.value }, null));
+					for await (const token of tokens) {
+						reply += token;
+						await writer.write(chunk({ content: token }, null));
+					}
+				}
+				await writer.write(chunk({}, "stop"));
+			} catch (streamError) {
+				getLogger(env).error("stream_failed", { route: "chat_completions", error: streamError });
+				await writer.write(formatSseData(errorBody(toApiError(streamError))));
+			} finally {
+				await writer.write("data: [DONE]\n\n");
+				await writer.close();
+			}
+
+			if (reply) {
+				await rememberExchange(env, llm, scope, userMessage, reply);
+				await recordLlmUsage(env, principal, llm, messages, reply);
+			}
+		})());
+
+		return new Response(readable.pipeThrough(new TextEncoderStream()), {
+			headers: {
+				"content-type": "text/event-stream",
+				"cache-control": "no-cache"
+			}
+		});
+	}
+
+	const reply = await llm.complete(messages);
+	const usage = await recordLlmUsage(env, principal, llm, messages, reply);
+	ctx.waitUntil(rememberExchange(env, llm, scope, userMessage, reply));
+
+	return jsonResponse({
+		id,
+		object: "chat.completion",
+		created,
+		model,
+		choices: [{
+			index: 0,
+			message: { role: "assistant", content: reply },
+			finish_reason: "stop"
+		}],
+		// As reported by the provider, or estimated when it did not report any
+		usage: {
+			prompt_tokens: usage.promptTokens,
+			completion_tokens: usage.completionTokens,
+			total_tokens: usage.promptTokens + usage.completionTokens
+		}
+	});
+}
@@ -0,0 +1,52 @@
+import { getAssistantMemoryScope, type AuthedContext } from "../auth";
+import { jsonResponse } from "../http";
+import { createLlmClient } from "../llm";
+import { applyRetentionPolicy, getRetentionPolicy, saveRetentionPolicy, type RetentionPolicy } from "../retention";
+import { boolean, number, object, optional, parseBody } from "../validation";
+
+const retentionPolicySchema = object({
+	maxAgeDays: optional(number({ integer: true, min: 1 })),
+	maxCount: optional(number({ integer: true, min: 1 })),
+	summarize: optional(boolean()),
+});
+
+function describePolicy(policy: RetentionPolicy | null) {
+	return {
+		maxAgeDays: policy?.maxAgeDays ?? null,
+		maxCount: policy?.maxCount ?? null,
+		summarize: policy?.summarize ?? false,
+		updatedAt: policy?.updatedAt ?? null
+	};
+}
+
+// GET /api/memory/retention?assistantId=: the user's policy, or that of an assistant's isolated memory
+export async function getRetention(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	return jsonResponse(describePolicy(await getRetentionPolicy(c.env, scope.userId)));
+}
+
+// PUT /api/memory/retention { maxAgeDays?, maxCount?, summarize? }: replaces the policy; with
+// neither limit set, memories are kept forever. Enforced daily by the scheduled handler.
+export async function putRetention(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const body = await parseBody(c.request, retentionPolicySchema);
+	const policy: RetentionPolicy = { summarize: body.summarize ?? false, updatedAt: new Date().toISOString() };
+	if (body.maxAgeDays !== undefined) {
+		policy.maxAgeDays = body.maxAgeDays;
+	}
+	if (body.maxCount !== undefined) {
+		policy.maxCount = body.maxCount;
+	}
+	return jsonResponse(describePolicy(await saveRetentionPolicy(c.env, scope.userId, policy)));
+}
+
+// POST /api/memory/retention/apply: enforce the policy now instead of waiting for the cron
+export async function applyRetention(c: AuthedContext): Promise<Response> {
+	const scope = await getAssistantMemoryScope(c);
+	const policy = await getRetentionPolicy(c.env, scope.userId);
+	if (!policy) {
+		return jsonResponse({ message: "No retention policy", removed: 0, summaries: 0 });
+	}
+	const result = await applyRetentionPolicy(c.env, scope.userId, policy, createLlmClient(c.env));
+	return jsonResponse({ message: "Retention policy applied", ...result });
+}
@@ -0,0 +1,41 @@
+import { getTokenUsage, type AuthedContext } from "../auth";
+import { ApiError, jsonResponse } from "../http";
+import { getDailyUsage, sumUsage, utcDate } from "../usage";
+import { object, optional, string, validate } from "../validation";
+
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateParam = () => optional(string({ pattern: /^\d{4}-\d{2}-\d{2}$/, patternMessage: "must be a date like 2025-01-31" }));
+const usageQuerySchema = object({
+	from: dateParam(),
+	to: dateParam(),
+});
+
+// GET /api/usage?from=&to=: the user's requests, LLM calls and tokens per UTC day, the last 30
+// days by default, with totals and how much of the key's daily token quota is left today.
+export async function getUsage(c: AuthedContext): Promise<Response> {
+	const { env, principal } = c;
+	const query = validate(usageQuerySchema, Object.fromEntries(c.url.searchParams));
+	const to = query.to ?? utcDate(new Date());
+	const from = query.from ?? utcDate(new Date(Date.parse(to) - (DEFAULT_USAGE_DAYS - 1) * DAY_MS));
+	const span = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+	if (!(span >= 1 && span <= MAX_USAGE_DAYS)) {
+		throw new ApiError(400, "validation_failed", "Invalid date range", { fields: [{ field: "from", message: `must be on or before "to" and at most ${MAX_USAGE_DAYS} days earlier` }] });
+	}
+
+	const [days, usedToday] = await Promise.all([getDailyUsage(env, principal.userId, from, to), getTokenUsage(env, principal)]);
+	return jsonResponse({
+		userId: principal.userId,
+		from,
+		to,
+		days,
+		totals: sumUsage(days),
+		quota: {
+			dailyTokenQuota: principal.dailyTokenQuota,
+			usedToday,
+			remainingToday: principal.dailyTokenQuota > 0 ? Math.max(0, principal.dailyTokenQuota - usedToday) : null
+		}
+	});
+}
@@ -0,0 +1,138 @@
+import type { Env } from "./env";
+import type { OpenRouterMessage } from "./llm";
+
+export interface ConversationTurn {
+	role: "user" | "assistant";
+	content: string;
+	timestamp: string;
+	// Images attached to a user turn, see POST /api/images
+	imageIds?: string[];
+}
+
+export interface ConversationSummary {
+	conversationId: string;
+	title: string;
+	createdAt: string;
+	updatedAt: string;
+	messageCount: number;
+}
+
+// Transcripts live in KV next to the memory counters: one key per conversation holding its
+// turns, and one index key per conversation whose metadata summarizes it for listing. Index keys
+// are written separately, so turns from concurrent conversations never overwrite each other's.
+export const MAX_STORED_TURNS = 200;
+// The most conversations kept per user; starting another drops the least recently active
+export const MAX_CONVERSATIONS = 100;
+const DEFAULT_HISTORY_TOKEN_BUDGET = 1500;
+
+function historyKey(userId: string, conversationId: string): string {
+	return `history:${userId}:${conversationId}`;
+}
+
+function conversationIndexPrefix(userId: string): string {
+	return `conversations:${userId}:`;
+}
+
+// Before per-conversation index keys, the whole list was one value under this key
+function legacyConversationsKey(userId: string): string {
+	return `conversations:${userId}`;
+}
+
+type ConversationIndexMetadata = Omit<ConversationSummary, "conversationId">;
+
+export async function getConversationTurns(env: Env, userId: string, conversationId: string): Promise<ConversationTurn[]> {
+	return (await env.messageId.get<ConversationTurn[]>(historyKey(userId, conversationId), "json")) || [];
+}
+
+async function indexConversation(env: Env, userId: string, summary: ConversationSummary): Promise<void> {
+	const { conversationId, ...metadata } = summary;
+	await env.messageId.put(conversationIndexPrefix(userId) + conversationId, "", { metadata });
+}
+
+// The user's conversations, most recently active first. A list from before per-conversation
+// index keys is moved into them on the way, never over entries written since.
+export async function listConversations(env: Env, userId: string): Promise<ConversationSummary[]> {
+	const prefix = conversationIndexPrefix(userId);
+	const conversations: ConversationSummary[] = [];
+	let cursor: string | null = null;
+	do {
+		const page: KVNamespaceListResult<ConversationIndexMetadata> = await env.messageId.list<ConversationIndexMetadata>({ prefix, cursor });
+		for (const key of page.keys) {
+			if (key.metadata) {
+				conversations.push({ conversationId: key.name.slice(prefix.length), ...key.metadata });
+			}
+		}
+		cursor = page.list_complete ? null : page.cursor;
+	} while (cursor);
+
+	const legacy = await env.messageId.get<ConversationSummary[]>(legacyConversationsKey(userId), "json");
+	if (legacy) {
+		const indexed = new Set(conversations.map((conversation) => conversation.conversationId));
+		const moved = legacy.filter((summary) => !indexed.has(summary.conversationId));
+		await Promise.all(moved.map((summary) => indexConversation(env, userId, summary)));
+		await env.messageId.delete(legacyConversationsKey(userId));
+		conversations.push(...moved);
+	}
+	return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Drop the transcripts and index keys of the conversations beyond MAX_CONVERSATIONS.
+async function pruneConversations(env: Env, userId: string): Promise<void> {
+	const stale = (await listConversations(env, userId)).slice(MAX_CONVERSATIONS);
+	await Promise.all(stale.flatMap(({ conversationId }) => [
+		env.messageId.delete(conversationIndexPrefix(userId) + conversationId),
+		env.messageId.delete(historyKey(userId, conversationId))
+	]));
+}
+
+// Turns within one conversation are appended in order by its chat session, see src/session.ts.
+export async function appendConversationTurns(env: Env, userId: string, conversationId: string, turns: ConversationTurn[]): Promise<void> {
+	const previous = await getConversationTurns(env, userId, conversationId);
+	const transcript = previous.concat(turns).slice(-MAX_STORED_TURNS);
+	await env.messageId.put(historyKey(userId, conversationId), JSON.stringify(transcript));
+
+	const now = new Date().toISOString();
+	const existing = previous.length > 0
+		? await env.messageId.getWithMetadata<ConversationIndexMetadata>(conversationIndexPrefix(userId) + conversationId)
+		: null;
+	const firstUserTurn = transcript.find((turn) => turn.role === "user");
+	await indexConversation(env, userId, {
+		conversationId,
+		title: existing?.metadata?.title ?? (firstUserTurn?.content || "New conversation").slice(0, 80),
+		createdAt: existing?.metadata?.createdAt ?? previous[0]?.timestamp ?? now,
+		updatedAt: now,
+		messageCount: transcript.length
+	});
+	if (previous.length === 0) {
+		await pruneConversations(env, userId);
+	}
+}
+
+// Rough token estimate (~4 characters per token), good enough for budgeting prompt history.
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+export function getHistoryTokenBudget(env: Env): number {
+	const budget = parseInt(env.HISTORY_TOKEN_BUDGET || "");
+	return Number.isFinite(budget) && budget >= 0 ? budget : DEFAULT_HISTORY_TOKEN_BUDGET;
+}
+
+// Take the most recent turns that fit in the token budget, oldest first.
+export function selectHistoryMessages(turns: ConversationTurn[], tokenBudget: number): OpenRouterMessage[] {
+	const selected: OpenRouterMessage[] = [];
+	let used = 0;
+	for (let i = turns.length - 1; i >= 0; i--) {
+		const tokens = estimateTokens(turns[i].content);
+		if (used + tokens > tokenBudget) {
+			break;
+		}
+		used += tokens;
+		selected.unshift({ role: turns[i].role, content: turns[i].content });
+	}
+	// Never open the context on a dangling assistant reply
+	while (selected.length > 0 && selected[0].role !== "user") {
+		selected.shift();
+	}
+	return selected;
+}
@@ -0,0 +1,119 @@
+import { LlmProviderError } from "./llm";
+
+// Machine-readable error codes. Clients should branch on these rather than on messages.
+export type ErrorCode =
+	// Client errors
+	| "invalid_json"
+	| "validation_failed"
+	| "unauthorized"
+	| "forbidden"
+	| "not_found"
+	| "method_not_allowed"
+	| "conflict"
+	| "upgrade_required"
+	| "rate_limited"
+	| "quota_exceeded"
+	// Upstream LLM or embedding model failures
+	| "llm_error"
+	// Vectorize, KV or R2 failures
+	| "storage_error"
+	| "internal_error";
+
+export interface FieldError {
+	field: string;
+	message: string;
+}
+
+export interface ApiErrorOptions {
+	fields?: FieldError[];
+	// Extra properties merged into the error envelope, e.g. retryAfter
+	details?: Record<string, unknown>;
+	headers?: Record<string, string>;
+}
+
+// An error meant for the client. Every failed request is answered with the same envelope:
+// { "error": { "code", "message", "fields"?, ...details } }
+export class ApiError extends Error {
+	constructor(
+		readonly status: number,
+		readonly code: ErrorCode,
+		message: string,
+		readonly options: ApiErrorOptions = {},
+	) {
+		super(message);
+		this.name = "ApiError";
+	}
+}
+
+// Raised when a Vectorize, KV or R2 call fails, see guardStorage, and by failed D1 queries.
+export class StorageError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "StorageError";
+	}
+}
+
+export function jsonResponse(data: unknown, init: { status?: number; headers?: Record<string, string> } = {}): Response {
+	return new Response(JSON.stringify(data), {
+		status: init.status ?? 200,
+		headers: { "content-type": "application/json", ...init.headers },
+	});
+}
+
+// The error envelope body, also used for SSE error events.
+export function errorBody(error: ApiError): { error: Record<string, unknown> } {
+	const body: Record<string, unknown> = { code: error.code, message: error.message, ...error.options.details };
+	if (error.options.fields) {
+		body.fields = error.options.fields;
+	}
+	return { error: body };
+}
+
+// Map anything a handler throws onto an ApiError: upstream model failures become 502s,
+// storage failures 503s, and anything else is an internal error whose details only go to the logs.
+export function toApiError(error: unknown): ApiError {
+	if (error instanceof ApiError) {
+		return error;
+	}
+	if (error instanceof LlmProviderError) {
+		return new ApiError(502, "llm_error", `LLM provider error: ${error.message}`);
+	}
+	if (error instanceof StorageError) {
+		return new ApiError(503, "storage_error", error.message);
+	}
+	return new ApiError(500, "internal_error", "Internal server error");
+}
+
+export function errorResponse(error: unknown): Response {
+	const apiError = toApiError(error);
+	return jsonResponse(errorBody(apiError), { status: apiError.status, headers: apiError.options.headers });
+}
+
+// Wrap the Vectorize, KV and R2 bindings so that a failing call throws a StorageError naming the
+// operation. Handlers can then let such failures propagate and still answer with storage_error.
+export function guardStorage<E extends { VECTORIZE: Vectorize; messageId: KVNamespace; IMAGES: R2Bucket }>(env: E): E {
+	return {
+		...env,
+		VECTORIZE: guardBinding(env.VECTORIZE, "Vectorize"),
+		messageId: guardBinding(env.messageId, "KV"),
+		IMAGES: guardBinding(env.IMAGES, "R2"),
+	};
+}
+
+function guardBinding<T extends object>(binding: T, name: string): T {
+	return new Proxy(binding, {
+		get(target, property) {
+			const value = Reflect.get(target, property);
+			if (typeof value !== "function") {
+				return value;
+			}
+			return async (...args: unknown[]) => {
+				try {
+					return await value.apply(target, args);
+				} catch (error) {
+					throw new StorageError(`${name} ${String(property)} failed: ${error instanceof Error ? error.message : "unknown error"}`);
+				}
+			};
+		},
+	});
+}
@@ -0,0 +1,245 @@
+import type { Env } from "./env";
+import { ApiError } from "./http";
+import { getLogger } from "./log";
+import { generateUlid, storeUserMemory, ULID_PATTERN, type MemoryScope } from "./memory";
+
+export const IMAGE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+const DEFAULT_IMAGE_CAPTION_MODEL = "@cf/llava-hf/llava-1.5-7b-hf";
+const CAPTION_PROMPT = "Describe this image in one or two sentences. Mention the main subjects, the setting and any visible text.";
+// R2 allows 2 KB of custom metadata per object, and the caption needs most of it
+const MAX_SOURCE_LENGTH = 512;
+
+export interface StoredImage {
+	id: string;
+	contentType: string;
+	size: number;
+	// Empty when captioning failed; such images are stored but not remembered
+	caption: string;
+}
+
+// Kept as R2 custom metadata next to the image bytes
+interface ImageMetadata {
+	userId: string;
+	caption: string;
+	createdAt: string;
+	conversationId?: string;
+	// The URL the image was fetched from, for images given by URL, cut to MAX_SOURCE_LENGTH
+	source?: string;
+}
+
+// Images live in R2 under the user's prefix, so an image ID alone never reaches another user's image.
+function imageKey(userId: string, id: string): string {
+	return `images/${userId}/${id}`;
+}
+
+function imageError(field: string, message: string): ApiError {
+	return new ApiError(400, "validation_failed", "Invalid image", { fields: [{ field, message }] });
+}
+
+function checkImage(bytes: ArrayBuffer, contentType: string, field: string): void {
+	if (!(IMAGE_CONTENT_TYPES as readonly string[]).includes(contentType)) {
+		throw imageError(field, `must be one of: ${IMAGE_CONTENT_TYPES.join(", ")}`);
+	}
+	if (bytes.byteLength === 0) {
+		throw imageError(field, "must not be empty");
+	}
+	if (bytes.byteLength > MAX_IMAGE_BYTES) {
+		throw imageError(field, `must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`);
+	}
+}
+
+// Caption with a Workers AI vision model. Failures only cost the image its memory.
+async function captionImage(env: Env, bytes: ArrayBuffer): Promise<string> {
+	try {
+		const result = await env.AI.run((env.IMAGE_CAPTION_MODEL || DEFAULT_IMAGE_CAPTION_MODEL) as "@cf/llava-hf/llava-1.5-7b-hf", {
+			image: Array.from(new Uint8Array(bytes)),
+			prompt: CAPTION_PROMPT,
+			max_tokens: 256
+		});
+		return (result.description || "").trim();
+	} catch (error) {
+		getLogger(env).warn("caption_failed", { error });
+		return "";
+	}
+}
+
+// Store an image in R2, caption it, and remember the caption as an "image" memory that points
+// back to the image, so that describing the image later finds it again. The image belongs to
+// the user; the memory goes to memoryScope, which differs for assistants with isolated memory.
+export async function ingestImage(env: Env, scope: MemoryScope, bytes: ArrayBuffer, contentType: string, field: string, source?: string, memoryScope: MemoryScope = scope): Promise<StoredImage> {
+	checkImage(bytes, contentType, field);
+
+	const id = generateUlid();
+	const caption = await captionImage(env, bytes);
+	const metadata: ImageMetadata = { userId: scope.userId, caption, createdAt: new Date().toISOString() };
+	if (scope.conversationId) {
+		metadata.conversationId = scope.conversationId;
+	}
+	if (source) {
+		metadata.source = source.slice(0, MAX_SOURCE_LENGTH);
+	}
+	await env.IMAGES.put(imageKey(scope.userId, id), bytes, {
+		httpMetadata: { contentType },
+		customMetadata: { ...metadata }
+	});
+
+	if (caption) {
+		await storeUserMemory(env, memoryScope, [{ text: caption, type: "image", imageId: id }]);
+	}
+	return { id, contentType, size: bytes.byteLength, caption };
+}
+
+export async function getUserImage(env: Env, userId: string, id: string): Promise<R2ObjectBody | null> {
+	if (!ULID_PATTERN.test(id)) {
+		return null;
+	}
+	return env.IMAGES.get(imageKey(userId, id));
+}
+
+function decodeDataUrl(url: string, field: string): { bytes: ArrayBuffer; contentType: string } {
+	const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+	if (!match) {
+		throw imageError(field, "must be a base64 data URL");
+	}
+	try {
+		const binary = atob(match[2]);
+		return { bytes: Uint8Array.from(binary, (char) => char.charCodeAt(0)).buffer, contentType: match[1].toLowerCase() };
+	} catch {
+		throw imageError(field, "must be a base64 data URL");
+	}
+}
+
+// Hosts on the Worker's own network or the public internet's reserved ranges: loopback, private,
+// link-local (cloud metadata endpoints) and carrier-grade NAT addresses, and local names. Names
+// are not resolved, so this stops literal addresses, not DNS names that point inward.
+function isPrivateHost(hostname: string): boolean {
+	const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+	if (host === "localhost" || /\.(localhost|local|internal)$/.test(host) || (!host.includes(".") && !host.includes(":"))) {
+		return true;
+	}
+	const ipv4 = host.replace(/^::ffff:/, "").match(/^(\d+)\.(\d+)\.\d+\.\d+$/);
+	if (ipv4) {
+		const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+		return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31)
+			|| (a === 192 && b === 168) || (a === 100 && b >= 64 && b <= 127);
+	}
+	// IPv6 loopback, unspecified, unique local (fc00::/7) and link-local (fe80::/10)
+	return host === "::1" || host === "::" || /^f[cd][0-9a-f]{0,2}:/.test(host) || /^fe[89ab][0-9a-f]?:/.test(host) || host.startsWith("::ffff:");
+}
+
+function checkImageUrl(url: string, field: string): URL {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		throw imageError(field, "must be a valid URL");
+	}
+	if (parsed.protocol !== "https:") {
+		throw imageError(field, "must be an https URL");
+	}
+	if (isPrivateHost(parsed.hostname)) {
+		throw imageError(field, "must not point to a private or local address");
+	}
+	return parsed;
+}
+
+// Redirects are followed by hand so that every hop is checked like the original URL
+const MAX_IMAGE_REDIRECTS = 3;
+
+async function fetchImage(url: string, field: string): Promise<{ bytes: ArrayBuffer; contentType: string }> {
+	const tooLarge = () => imageError(field, `must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`);
+	let target = checkImageUrl(url, field);
+	let response: Response;
+	for (let redirects = 0; ; redirects++) {
+		try {
+			response = await fetch(target, { headers: { Accept: IMAGE_CONTENT_TYPES.join(", ") }, redirect: "manual" });
+		} catch {
+			throw imageError(field, "could not be fetched");
+		}
+		const location = response.headers.get("Location");
+		if (response.status < 300 || response.status >= 400 || !location) {
+			break;
+		}
+		await response.body?.cancel();
+		if (redirects === MAX_IMAGE_REDIRECTS) {
+			throw imageError(field, "could not be fetched (too many redirects)");
+		}
+		target = checkImageUrl(new URL(location, target).href, field);
+	}
+	if (!response.ok) {
+		throw imageError(field, `could not be fetched (${response.status})`);
+	}
+	if (parseInt(response.headers.get("Content-Length") || "0") > MAX_IMAGE_BYTES) {
+		await response.body?.cancel();
+		throw tooLarge();
+	}
+	const contentType = (response.headers.get("Content-Type") || "").split(";")[0].trim().toLowerCase();
+
+	// Content-Length may be missing or wrong, so count the bytes as they arrive
+	const chunks: Uint8Array[] = [];
+	let size = 0;
+	if (response.body) {
+		const reader = response.body.getReader();
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			size += value.byteLength;
+			if (size > MAX_IMAGE_BYTES) {
+				await reader.cancel();
+				throw tooLarge();
+			}
+			chunks.push(value);
+		}
+	}
+	const bytes = new Uint8Array(size);
+	let offset = 0;
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return { bytes: bytes.buffer, contentType };
+}
+
+// Resolve an image reference from a chat request: the ID of an uploaded image, a data URL, or
+// an https URL on a public host. New images are ingested; the bytes are returned for passing to the model.
+export async function resolveImage(env: Env, scope: MemoryScope, reference: string, field: string, memoryScope: MemoryScope = scope): Promise<{ image: StoredImage; bytes: ArrayBuffer }> {
+	if (ULID_PATTERN.test(reference)) {
+		const object = await getUserImage(env, scope.userId, reference);
+		if (!object) {
+			throw imageError(field, "is not an uploaded image");
+		}
+		const bytes = await object.arrayBuffer();
+		return {
+			image: { id: reference, contentType: object.httpMetadata?.contentType || "", size: object.size, caption: object.customMetadata?.caption || "" },
+			bytes
+		};
+	}
+
+	let source: string | undefined;
+	let data: { bytes: ArrayBuffer; contentType: string };
+	if (reference.startsWith("data:")) {
+		data = decodeDataUrl(reference, field);
+	} else if (/^https?:\/\//i.test(reference)) {
+		// checkImageUrl refuses plain http with a clearer message than the one below
+		source = reference;
+		data = await fetchImage(reference, field);
+	} else {
+		throw imageError(field, "must be an uploaded image ID, a data URL or an https URL");
+	}
+	const image = await ingestImage(env, scope, data.bytes, data.contentType, field, source, memoryScope);
+	return { image, bytes: data.bytes };
+}
+
+export function toDataUrl(bytes: ArrayBuffer, contentType: string): string {
+	const view = new Uint8Array(bytes);
+	let binary = "";
+	// Build the string in chunks; spreading a large array into fromCharCode overflows the stack
+	for (let i = 0; i < view.length; i += 0x8000) {
+		binary += String.fromCharCode(...view.subarray(i, i + 0x8000));
+	}
+	return `data:${contentType};base64,${btoa(binary)}`;
+}
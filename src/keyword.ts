@@ -0,0 +1,154 @@
+import type { Env } from "./env";
+import { StorageError } from "./http";
+import { getLogger } from "./log";
+import { isMemoryType, type MemoryFilters, type VectorizeVector } from "./memory";
+
+// A memory that matched a keyword search, with its BM25 relevance (higher is better)
+export interface KeywordHit {
+	id: string;
+	score: number;
+}
+
+// Words, numbers and identifiers such as "ORD-1234", "snake_case" or "v2.1"; each is searched as
+// a phrase so its parts must appear together
+const TERM_PATTERN = /[\p{L}\p{N}]+(?:[._\-/:#@][\p{L}\p{N}]+)*/gu;
+const MAX_QUERY_TERMS = 32;
+
+// An FTS5 query matching memories that contain any of the query's terms, or null when it has none
+export function toMatchQuery(query: string): string | null {
+	const terms = Array.from(new Set(query.match(TERM_PATTERN) || [])).slice(0, MAX_QUERY_TERMS);
+	return terms.length > 0 ? terms.map((term) => `"${term}"`).join(" OR ") : null;
+}
+
+// Progress of writing memories stored before the keyword index existed into it, kept in KV. The
+// cron walks the memory ID index of all users once, resuming from `cursor`.
+export interface KeywordBackfill {
+	status: "running" | "completed";
+	cursor: string | null;
+	// Memories looked at, and those that were missing from the index
+	scanned: number;
+	indexed: number;
+	startedAt: string;
+	updatedAt: string;
+	completedAt?: string;
+}
+
+const KEYWORD_BACKFILL_KEY = "keyword-backfill";
+
+export async function getKeywordBackfill(env: Env): Promise<KeywordBackfill | null> {
+	return env.messageId.get<KeywordBackfill>(KEYWORD_BACKFILL_KEY, "json");
+}
+
+export async function saveKeywordBackfill(env: Env, backfill: KeywordBackfill): Promise<void> {
+	await env.messageId.put(KEYWORD_BACKFILL_KEY, JSON.stringify(backfill));
+}
+
+function memoryTextStatements(env: Env, vectors: VectorizeVector[]): D1PreparedStatement[] {
+	return vectors
+		.filter((vector) => vector.metadata?.memory && vector.metadata.userId)
+		.map((vector) => {
+			const metadata = vector.metadata!;
+			return env.DB.prepare(
+				`INSERT INTO memory_text (id, user_id, type, conversation_id, timestamp, text) VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+				ON CONFLICT (id) DO UPDATE SET
+					user_id = excluded.user_id,
+					type = excluded.type,
+					conversation_id = excluded.conversation_id,
+					timestamp = excluded.timestamp,
+					text = excluded.text`
+			).bind(
+				vector.id,
+				metadata.userId,
+				isMemoryType(metadata.type) ? metadata.type : "user_message",
+				metadata.conversationId ?? null,
+				metadata.timestamp || new Date().toISOString(),
+				metadata.memory
+			);
+		});
+}
+
+// Write the text of stored vectors to the keyword index, replacing earlier versions. The index
+// is secondary to Vectorize: a failed write is logged, and the memory stays findable by vector.
+export async function indexMemoryText(env: Env, vectors: VectorizeVector[]): Promise<void> {
+	const statements = memoryTextStatements(env, vectors);
+	if (statements.length === 0) {
+		return;
+	}
+	try {
+		await env.DB.batch(statements);
+	} catch (error) {
+		getLogger(env).error("keyword_index_failed", { ids: vectors.map((vector) => vector.id), error });
+	}
+}
+
+// indexMemoryText for the backfill, which must not move past a failed write
+export async function backfillMemoryText(env: Env, vectors: VectorizeVector[]): Promise<void> {
+	const statements = memoryTextStatements(env, vectors);
+	if (statements.length > 0) {
+		await env.DB.batch(statements);
+	}
+}
+
+// Those of the given memory IDs that have no row in the keyword index
+export async function findUnindexedMemoryIds(env: Env, ids: string[]): Promise<string[]> {
+	if (ids.length === 0) {
+		return [];
+	}
+	const { results } = await env.DB.prepare(`SELECT id FROM memory_text WHERE id IN (${ids.map(() => "?").join(", ")})`).bind(...ids).all<{ id: string }>();
+	const indexed = new Set(results.map((row) => row.id));
+	return ids.filter((id) => !indexed.has(id));
+}
+
+// Drop deleted memories from the keyword index. Rows left behind by a failed delete are harmless,
+// as keyword hits are looked up in Vectorize before they are returned.
+export async function unindexMemoryText(env: Env, ids: string[]): Promise<void> {
+	if (ids.length === 0) {
+		return;
+	}
+	try {
+		await env.DB.batch(ids.map((id) => env.DB.prepare("DELETE FROM memory_text WHERE id = ?1").bind(id)));
+	} catch (error) {
+		getLogger(env).error("keyword_unindex_failed", { ids, error });
+	}
+}
+
+// The user's memories matching the query's terms, best BM25 match first.
+export async function searchMemoryText(env: Env, userId: string, query: string, filters: MemoryFilters, limit: number): Promise<KeywordHit[]> {
+	const match = toMatchQuery(query);
+	if (!match) {
+		return [];
+	}
+
+	const conditions = ["memory_fts MATCH ?", "m.user_id = ?"];
+	const params: unknown[] = [match, userId];
+	if (filters.types) {
+		conditions.push(`m.type IN (${filters.types.map(() => "?").join(", ") || "NULL"})`);
+		params.push(...filters.types);
+	}
+	if (filters.conversationId) {
+		conditions.push("m.conversation_id = ?");
+		params.push(filters.conversationId);
+	}
+	if (filters.from) {
+		conditions.push("m.timestamp >= ?");
+		params.push(filters.from);
+	}
+	if (filters.to) {
+		conditions.push("m.timestamp <= ?");
+		params.push(filters.to);
+	}
+	params.push(limit);
+
+	let rows: Array<{ id: string; rank: number }>;
+	try {
+		const result = await getLogger(env).span("keyword.query", { userId, terms: match.split(" OR ").length, limit }, () => env.DB.prepare(
+			`SELECT m.id AS id, bm25(memory_fts) AS rank FROM memory_fts JOIN memory_text m ON m.rowid = memory_fts.rowid
+			WHERE ${conditions.join(" AND ")} ORDER BY rank LIMIT ?`
+		).bind(...params).all<{ id: string; rank: number }>());
+		rows = result.results;
+	} catch (error) {
+		throw new StorageError(`D1 keyword search failed: ${error instanceof Error ? error.message : "unknown error"}`);
+	}
+	// FTS5 ranks better matches lower, below zero
+	return rows.map((row) => ({ id: row.id, score: -row.rank }));
+}
@@ -0,0 +1,448 @@
+import type { Env } from "./env";
+import { getLogger, type Logger } from "./log";
+
+export interface OpenRouterMessage {
+	role: "user" | "assistant" | "system" | "tool";
+	content: string | Array<{
+		type: "text" | "image_url";
+		text?: string;
+		image_url?: {
+			url: string;
+		};
+	}>;
+	// Set on assistant messages that call tools
+	tool_calls?: ToolCall[];
+	// Set on "tool" messages: the call this is the result of
+	tool_call_id?: string;
+}
+
+// Token counts as OpenAI-compatible APIs (and newer Workers AI models) report them
+interface UsageReport {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+}
+
+export interface OpenRouterResponse {
+	choices: Array<{
+		message: {
+			content: string | null;
+			tool_calls?: ToolCall[];
+		};
+	}>;
+	usage?: UsageReport;
+}
+
+// A function the model may call, described by a JSON Schema of its arguments.
+export interface ToolDefinition {
+	name: string;
+	description: string;
+	parameters: Record<string, unknown>;
+}
+
+// A tool call as it appears in OpenAI chat completions; `arguments` is a JSON string.
+export interface ToolCall {
+	id: string;
+	type: "function";
+	function: {
+		name: string;
+		arguments: string;
+	};
+}
+
+// One model turn when tools are offered: either tool calls to run, or the final answer.
+export interface LlmTurn {
+	content: string;
+	toolCalls: ToolCall[];
+}
+
+interface OpenAiStreamChunk {
+	choices?: Array<{
+		delta?: {
+			content?: string | null;
+		};
+	}>;
+	// Sent with the last chunk when the request asks for it with stream_options.include_usage
+	usage?: UsageReport | null;
+	error?: {
+		message?: string;
+	};
+}
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+}
+
+// Called by providers with the tokens a call used, when the backend reports them
+export type UsageCallback = (usage: TokenUsage) => void;
+
+function reportUsage(report: UsageReport | null | undefined, onUsage: UsageCallback | undefined): void {
+	if (report && onUsage) {
+		onUsage({ promptTokens: report.prompt_tokens ?? 0, completionTokens: report.completion_tokens ?? 0 });
+	}
+}
+
+// Sampling settings passed to every provider; unset values use the model's defaults.
+export interface GenerationParams {
+	temperature?: number;
+	maxTokens?: number;
+}
+
+// A chat completion backend. `stream` yields content deltas as they arrive. Providers without
+// `completeWithTools` are only ever asked for plain completions. Providers that learn how many
+// tokens a call used pass them to `onUsage`.
+export interface LlmProvider {
+	readonly name: string;
+	complete(messages: OpenRouterMessage[], onUsage?: UsageCallback): Promise<string>;
+	stream(messages: OpenRouterMessage[], onUsage?: UsageCallback): AsyncGenerator<string>;
+	completeWithTools?(messages: OpenRouterMessage[], tools: ToolDefinition[], onUsage?: UsageCallback): Promise<LlmTurn>;
+}
+
+// Raised by providers. Rate limits, upstream 5xx and network failures are retryable and
+// make the client fall back to the next provider; anything else is surfaced as is.
+export class LlmProviderError extends Error {
+	constructor(
+		readonly provider: string,
+		message: string,
+		readonly status?: number,
+		readonly retryAfterMs?: number,
+	) {
+		super(`${provider}: ${message}`);
+		this.name = "LlmProviderError";
+	}
+
+	get retryable(): boolean {
+		return this.status === undefined || this.status === 429 || this.status >= 500;
+	}
+}
+
+const OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
+const DEFAULT_OPENROUTER_MODEL = "mistralai/mistral-small-3.1-24b-instruct:free";
+const DEFAULT_WORKERS_AI_MODEL = "@cf/meta/llama-3.1-8b-instruct";
+const DEFAULT_PROVIDERS = "openrouter,workers-ai";
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 500;
+// The longest a Retry-After header may hold up a retry; past that the client would rather fall back
+const MAX_RETRY_AFTER_MS = 10_000;
+
+// Read "data:" payloads from a Server-Sent Events body until the stream ends or sends [DONE].
+// Lines starting with ":" are keep-alive comments and are skipped.
+async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+	const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+	let buffer = "";
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			buffer += value;
+
+			let newline: number;
+			while ((newline = buffer.indexOf("\n")) !== -1) {
+				const line = buffer.slice(0, newline).trim();
+				buffer = buffer.slice(newline + 1);
+				if (!line.startsWith("data:")) {
+					continue;
+				}
+				const data = line.slice("data:".length).trim();
+				if (data === "[DONE]") {
+					return;
+				}
+				yield data;
+			}
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+// A malformed chunk fails the provider, so the client can still fall back before the first token.
+function parseSseChunk<T>(provider: string, data: string): T {
+	try {
+		return JSON.parse(data) as T;
+	} catch {
+		throw new LlmProviderError(provider, "malformed stream chunk");
+	}
+}
+
+function parseRetryAfter(response: Response): number | undefined {
+	const retryAfter = parseInt(response.headers.get("Retry-After") || "");
+	return Number.isFinite(retryAfter) ? Math.min(Math.max(0, retryAfter * 1000), MAX_RETRY_AFTER_MS) : undefined;
+}
+
+// Any endpoint speaking the OpenAI chat completions protocol; OpenRouter is one of them.
+export class OpenAiCompatibleProvider implements LlmProvider {
+	constructor(
+		readonly name: string,
+		private readonly baseUrl: string,
+		private readonly apiKey: string,
+		private readonly model: string,
+		private readonly params: GenerationParams = {},
+	) {}
+
+	private async request(messages: OpenRouterMessage[], stream: boolean, tools: ToolDefinition[] = []): Promise<Response> {
+		let response: Response;
+		try {
+			response = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+				method: "POST",
+				headers: {
+					"Authorization": `Bearer ${this.apiKey}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					model: this.model,
+					messages: messages,
+					stream: stream,
+					stream_options: stream ? { include_usage: true } : undefined,
+					temperature: this.params.temperature,
+					max_tokens: this.params.maxTokens,
+					tools: tools.length > 0 ? tools.map((tool) => ({ type: "function", function: tool })) : undefined,
+				}),
+			});
+		} catch (error) {
+			throw new LlmProviderError(this.name, error instanceof Error ? error.message : "request failed");
+		}
+
+		if (!response.ok) {
+			throw new LlmProviderError(this.name, `${response.status} ${response.statusText}`, response.status, parseRetryAfter(response));
+		}
+		return response;
+	}
+
+	async complete(messages: OpenRouterMessage[], onUsage?: UsageCallback): Promise<string> {
+		const response = await this.request(messages, false);
+		const data: OpenRouterResponse = await response.json();
+		reportUsage(data.usage, onUsage);
+		return data.choices[0]?.message?.content || "No response generated";
+	}
+
+	async completeWithTools(messages: OpenRouterMessage[], tools: ToolDefinition[], onUsage?: UsageCallback): Promise<LlmTurn> {
+		const response = await this.request(messages, false, tools);
+		const data: OpenRouterResponse = await response.json();
+		reportUsage(data.usage, onUsage);
+		const message = data.choices[0]?.message;
+		return { content: message?.content || "", toolCalls: message?.tool_calls || [] };
+	}
+
+	async *stream(messages: OpenRouterMessage[], onUsage?: UsageCallback): AsyncGenerator<string> {
+		const response = await this.request(messages, true);
+		if (!response.body) {
+			throw new LlmProviderError(this.name, "empty stream");
+		}
+
+		for await (const data of readSseData(response.body)) {
+			const chunk = parseSseChunk<OpenAiStreamChunk>(this.name, data);
+			if (chunk.error) {
+				throw new LlmProviderError(this.name, chunk.error.message || "stream failed");
+			}
+			reportUsage(chunk.usage, onUsage);
+			const token = chunk.choices?.[0]?.delta?.content;
+			if (token) {
+				yield token;
+			}
+		}
+	}
+}
+
+// Text generation through the `env.AI` binding. Only text content is forwarded.
+export class WorkersAiProvider implements LlmProvider {
+	readonly name = "workers-ai";
+
+	constructor(
+		private readonly ai: Ai,
+		private readonly model: string,
+		private readonly params: GenerationParams = {},
+	) {}
+
+	private toTextMessages(messages: OpenRouterMessage[]): Array<RoleScopedChatInput & { tool_calls?: ToolCall[]; tool_call_id?: string }> {
+		return messages.map((message) => ({
+			role: message.role,
+			content: typeof message.content === "string"
+				? message.content
+				: message.content.map((part) => part.text || "").join("\n"),
+			tool_calls: message.tool_calls,
+			tool_call_id: message.tool_call_id,
+		}));
+	}
+
+	private async run(messages: OpenRouterMessage[], stream: boolean, tools: ToolDefinition[] = []): Promise<unknown> {
+		const input: AiTextGenerationInput = {
+			messages: this.toTextMessages(messages),
+			stream,
+			temperature: this.params.temperature,
+			max_tokens: this.params.maxTokens,
+			tools: tools.length > 0 ? tools : undefined,
+		};
+		try {
+			return await this.ai.run(this.model as keyof AiModels, input);
+		} catch (error) {
+			throw new LlmProviderError(this.name, error instanceof Error ? error.message : "inference failed");
+		}
+	}
+
+	async complete(messages: OpenRouterMessage[], onUsage?: UsageCallback): Promise<string> {
+		const result = await this.run(messages, false) as { response?: string; usage?: UsageReport };
+		reportUsage(result.usage, onUsage);
+		return result.response || "No response generated";
+	}
+
+	// Workers AI returns tool calls without IDs and with parsed arguments
+	async completeWithTools(messages: OpenRouterMessage[], tools: ToolDefinition[], onUsage?: UsageCallback): Promise<LlmTurn> {
+		const result = await this.run(messages, false, tools) as { response?: string; tool_calls?: Array<{ name: string; arguments: unknown }>; usage?: UsageReport };
+		reportUsage(result.usage, onUsage);
+		return {
+			content: result.response || "",
+			toolCalls: (result.tool_calls || []).map((call) => ({
+				id: `call_${crypto.randomUUID()}`,
+				type: "function" as const,
+				function: {
+					name: call.name,
+					arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {}),
+				},
+			})),
+		};
+	}
+
+	async *stream(messages: OpenRouterMessage[], onUsage?: UsageCallback): AsyncGenerator<string> {
+		const body = await this.run(messages, true) as ReadableStream<Uint8Array>;
+		for await (const data of readSseData(body)) {
+			const chunk = parseSseChunk<{ response?: string; usage?: UsageReport }>(this.name, data);
+			reportUsage(chunk.usage, onUsage);
+			const token = chunk.response;
+			if (token) {
+				yield token;
+			}
+		}
+	}
+}
+
+export interface LlmClientOptions {
+	maxRetries: number;
+	retryBaseDelayMs: number;
+	logger?: Logger;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Tries providers in order. Retryable failures are retried with exponential backoff
+// before moving on to the next provider.
+export class LlmClient {
+	// Successful calls, and the tokens they used as far as the providers reported them
+	readonly usage = { calls: 0, promptTokens: 0, completionTokens: 0 };
+	private readonly logger: Logger;
+	private readonly onUsage: UsageCallback = (usage) => {
+		this.usage.promptTokens += usage.promptTokens;
+		this.usage.completionTokens += usage.completionTokens;
+	};
+
+	constructor(
+		private readonly providers: LlmProvider[],
+		private readonly options: LlmClientOptions,
+	) {
+		if (providers.length === 0) {
+			throw new Error("At least one LLM provider must be configured");
+		}
+		this.logger = options.logger ?? getLogger({});
+	}
+
+	// Each attempt is logged as an "llm" span; for streams it ends with the first token.
+	private async withFallback<T>(operation: string, attempt: (provider: LlmProvider) => Promise<T>): Promise<T> {
+		let lastError: unknown;
+		for (const provider of this.providers) {
+			for (let retry = 0; retry <= this.options.maxRetries; retry++) {
+				try {
+					const result = await this.logger.span("llm", { operation, provider: provider.name, attempt: retry + 1 }, () => attempt(provider));
+					this.usage.calls++;
+					return result;
+				} catch (error) {
+					lastError = error;
+					if (!(error instanceof LlmProviderError) || !error.retryable) {
+						throw error;
+					}
+					if (retry < this.options.maxRetries) {
+						await sleep(error.retryAfterMs ?? this.options.retryBaseDelayMs * 2 ** retry);
+					}
+				}
+			}
+		}
+		throw lastError;
+	}
+
+	complete(messages: OpenRouterMessage[]): Promise<string> {
+		return this.withFallback("complete", (provider) => provider.complete(messages, this.onUsage));
+	}
+
+	// A provider without tool support answers without calling any.
+	completeWithTools(messages: OpenRouterMessage[], tools: ToolDefinition[]): Promise<LlmTurn> {
+		return this.withFallback("complete_with_tools", async (provider) => provider.completeWithTools
+			? provider.completeWithTools(messages, tools, this.onUsage)
+			: { content: await provider.complete(messages, this.onUsage), toolCalls: [] });
+	}
+
+	// Fallback only applies until the first token arrives; after that the stream is committed
+	// to one provider and later failures are thrown to the consumer.
+	async *stream(messages: OpenRouterMessage[]): AsyncGenerator<string> {
+		const { first, rest } = await this.withFallback("stream", async (provider) => {
+			const tokens = provider.stream(messages, this.onUsage);
+			return { first: await tokens.next(), rest: tokens };
+		});
+		if (first.done) {
+			return;
+		}
+		yield first.value;
+		yield* rest;
+	}
+}
+
+function parseNonNegativeInt(value: string | undefined, fallback: number): number {
+	const parsed = parseInt(value || "");
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export interface LlmProviderOptions extends GenerationParams {
+	// The conversation includes images. OpenRouter then uses OPENROUTER_VISION_MODEL, even over a
+	// model override, as nothing says the override can see; Workers AI only ever sees the text parts.
+	vision?: boolean;
+	// Overrides the configured model of the provider it belongs to: WORKERS_AI_MODEL for "@cf/"
+	// models, otherwise OPENROUTER_MODEL. That provider moves to the front of the chain, and the
+	// others, openai-compatible included, keep their own models as fallbacks.
+	model?: string;
+}
+
+// Build the provider chain named in LLM_PROVIDERS, e.g. "openrouter,workers-ai".
+export function createLlmProviders(env: Env, options: LlmProviderOptions = {}): LlmProvider[] {
+	const names = (env.LLM_PROVIDERS || DEFAULT_PROVIDERS).split(",").map((name) => name.trim()).filter(Boolean);
+	const params: GenerationParams = { temperature: options.temperature, maxTokens: options.maxTokens };
+	const workersAiModel = options.model?.startsWith("@cf/") ? options.model : undefined;
+	const openRouterModel = options.model && !workersAiModel ? options.model : undefined;
+	if (options.model) {
+		const owner = workersAiModel ? "workers-ai" : "openrouter";
+		names.sort((a, b) => Number(b === owner) - Number(a === owner));
+	}
+	return names.map((name): LlmProvider => {
+		switch (name) {
+			case "openrouter":
+				return new OpenAiCompatibleProvider(name, OPENROUTER_BASE_URL, env.OPENROUTER_API_KEY,
+					(options.vision && env.OPENROUTER_VISION_MODEL) || openRouterModel || env.OPENROUTER_MODEL || DEFAULT_OPENROUTER_MODEL, params);
+			case "workers-ai":
+				return new WorkersAiProvider(env.AI, workersAiModel || env.WORKERS_AI_MODEL || DEFAULT_WORKERS_AI_MODEL, params);
+			case "openai-compatible":
+				if (!env.OPENAI_COMPATIBLE_BASE_URL || !env.OPENAI_COMPATIBLE_MODEL) {
+					throw new Error("openai-compatible provider requires OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL");
+				}
+				return new OpenAiCompatibleProvider(name, env.OPENAI_COMPATIBLE_BASE_URL, env.OPENAI_COMPATIBLE_API_KEY || "",
+					env.OPENAI_COMPATIBLE_MODEL, params);
+			default:
+				throw new Error(`Unknown LLM provider: ${name}`);
+		}
+	});
+}
+
+export function createLlmClient(env: Env, options: LlmProviderOptions = {}): LlmClient {
+	return new LlmClient(createLlmProviders(env, options), {
+		maxRetries: parseNonNegativeInt(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES),
+		retryBaseDelayMs: parseNonNegativeInt(env.LLM_RETRY_BASE_DELAY_MS, DEFAULT_RETRY_BASE_DELAY_MS),
+		logger: getLogger(env),
+	});
+}
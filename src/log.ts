@@ -0,0 +1,117 @@
+import type { Env } from "./env";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const CONSOLE_METHODS: Record<LogLevel, "debug" | "log" | "warn" | "error"> = { debug: "debug", info: "log", warn: "warn", error: "error" };
+
+// Fields that carry what users wrote or were told. Text and lists in them are replaced by their size.
+const CONTENT_FIELDS = new Set(["message", "messages", "text", "content", "prompt", "systemPrompt", "memory", "memories", "reply", "query", "caption", "arguments", "result", "body"]);
+const MAX_DEPTH = 4;
+
+// Things that identify people or grant access, wherever they appear in a logged string
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+	[/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, "[email]"],
+	[/\bBearer\s+\S+/gi, "Bearer [secret]"],
+	[/\b(?:cbm|sk|sk-or-v1)[-_][\w-]{16,}/g, "[secret]"],
+	// Phone and card numbers; dates and times have too few digits to match
+	[/\+?\b\d(?:[ .-]?\d){8,}\b/g, "[number]"],
+];
+
+function scrub(text: string): string {
+	return SECRET_PATTERNS.reduce((scrubbed, [pattern, replacement]) => scrubbed.replace(pattern, replacement), text);
+}
+
+// Make a value safe to log: content fields are reduced to their size, errors to their name and
+// message, and every string is scrubbed of email addresses, keys and long numbers.
+export function redact(value: unknown, field?: string, depth = 0): unknown {
+	if (field !== undefined && CONTENT_FIELDS.has(field)) {
+		if (typeof value === "string") {
+			return `[redacted ${value.length} chars]`;
+		}
+		if (Array.isArray(value)) {
+			return `[redacted ${value.length} items]`;
+		}
+		if (typeof value === "object" && value !== null) {
+			return "[redacted]";
+		}
+	}
+	if (value instanceof Error) {
+		return { name: value.name, message: scrub(value.message) };
+	}
+	if (typeof value === "string") {
+		return scrub(value);
+	}
+	if (typeof value !== "object" || value === null) {
+		return value;
+	}
+	if (depth >= MAX_DEPTH) {
+		return "[truncated]";
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redact(item, undefined, depth + 1));
+	}
+	return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item, key, depth + 1)]));
+}
+
+export function parseLogLevel(value: string | undefined): LogLevel {
+	return LEVELS.includes(value as LogLevel) ? (value as LogLevel) : "info";
+}
+
+// Structured logs: one JSON object per line, which Workers Logs indexes field by field. Every
+// entry carries the logger's context, e.g. the request ID, and is redacted before it is written.
+export class Logger {
+	constructor(
+		private readonly context: LogFields = {},
+		private readonly level: LogLevel = "info",
+	) {}
+
+	child(fields: LogFields): Logger {
+		return new Logger({ ...this.context, ...fields }, this.level);
+	}
+
+	debug(event: string, fields: LogFields = {}): void {
+		this.write("debug", event, fields);
+	}
+
+	info(event: string, fields: LogFields = {}): void {
+		this.write("info", event, fields);
+	}
+
+	warn(event: string, fields: LogFields = {}): void {
+		this.write("warn", event, fields);
+	}
+
+	error(event: string, fields: LogFields = {}): void {
+		this.write("error", event, fields);
+	}
+
+	// Time an operation and log it as a "span" event with its duration and outcome.
+	async span<T>(name: string, fields: LogFields, operation: () => Promise<T>): Promise<T> {
+		const started = Date.now();
+		try {
+			const result = await operation();
+			this.info("span", { span: name, ...fields, durationMs: Date.now() - started, ok: true });
+			return result;
+		} catch (error) {
+			this.warn("span", { span: name, ...fields, durationMs: Date.now() - started, ok: false, error });
+			throw error;
+		}
+	}
+
+	private write(level: LogLevel, event: string, fields: LogFields): void {
+		if (LEVELS.indexOf(level) < LEVELS.indexOf(this.level)) {
+			return;
+		}
+		const entry = { level, event, time: new Date().toISOString(), ...this.context, ...fields };
+		console[CONSOLE_METHODS[level]](JSON.stringify(redact(entry)));
+	}
+}
+
+// Used outside of requests, and by code handed an env without a request logger
+const defaultLogger = new Logger();
+
+export function getLogger(env: Pick<Env, "log">): Logger {
+	return env.log ?? defaultLogger;
+}
@@ -0,0 +1,1170 @@
+import {
+	embedTexts,
+	getEmbeddingMigration,
+	getEmbeddingModel,
+	getQueryEmbeddingModels,
+	saveEmbeddingMigration,
+	storedEmbeddingModels,
+	vectorEmbeddingModel,
+	type EmbeddingMigration,
+} from "./embeddings";
+import { invalidateResponseCache } from "./cache";
+import { parseNumber, type Env } from "./env";
+import {
+	backfillMemoryText,
+	findUnindexedMemoryIds,
+	getKeywordBackfill,
+	indexMemoryText,
+	saveKeywordBackfill,
+	searchMemoryText,
+	unindexMemoryText,
+	type KeywordBackfill,
+	type KeywordHit,
+} from "./keyword";
+import type { LlmClient } from "./llm";
+import { getLogger } from "./log";
+
+export interface VectorizeVector {
+	id: string;
+	values: number[];
+	namespace?: string;
+	metadata?: MemoryMetadata;
+}
+
+export type MemoryMetadata = {
+	memory?: string;
+	timestamp?: string;
+	type?: string;
+	userId?: string;
+	conversationId?: string;
+	revision?: number;
+	// Image memories: the ID of the image in R2 that the caption describes
+	imageId?: string;
+	// Document chunks: the document, its name, and where in its text the chunk starts
+	documentId?: string;
+	source?: string;
+	offset?: number;
+	// The embedding model that produced the vector, and its dimension
+	embeddingModel?: string;
+	embeddingDimensions?: number;
+	// Pinned memories are exempt from retention, see src/retention.ts
+	pinned?: boolean;
+};
+
+export const MEMORY_TYPES = ["user_message", "assistant_message", "fact", "image", "document", "summary"] as const;
+export type MemoryType = typeof MEMORY_TYPES[number];
+
+// Where a "document" memory came from, so answers can cite it.
+export interface DocumentReference {
+	documentId: string;
+	source: string;
+	// Character offset of the chunk in the document's extracted text
+	offset: number;
+}
+
+export interface NewMemory {
+	text: string;
+	type: MemoryType;
+	imageId?: string;
+	document?: DocumentReference;
+}
+
+export interface RetrievedMemory {
+	id: string;
+	text: string;
+	type: MemoryType;
+	timestamp?: string;
+	imageId?: string;
+	document?: DocumentReference;
+	// Cosine similarity reported by Vectorize, when the memory was found by vector search
+	similarity?: number;
+	// BM25 relevance reported by D1, when the memory was found by keyword search
+	keywordScore?: number;
+	// Cross-encoder relevance, when reranking is enabled
+	rerankScore?: number;
+	// Final ranking score after fusion, reranking, type weighting and recency decay
+	score: number;
+}
+
+// "vector" ranks by embedding similarity, "keyword" by BM25 over the memory text, and "hybrid"
+// fuses both rankings, which finds exact names, numbers and identifiers that embeddings miss.
+export const MEMORY_SEARCH_MODES = ["vector", "keyword", "hybrid"] as const;
+export type MemorySearchMode = typeof MEMORY_SEARCH_MODES[number];
+
+// Narrow a search to some of the user's memories; applied the same way in every search mode
+export interface MemoryFilters {
+	// Only return memories of these types (all types when omitted)
+	types?: MemoryType[];
+	conversationId?: string;
+	// Inclusive bounds on the memory's timestamp, as ISO 8601 timestamps
+	from?: string;
+	to?: string;
+}
+
+export interface MemoryRetrievalOptions extends MemoryFilters {
+	// Multipliers applied to relevance scores before ranking; unlisted types weigh 1
+	typeWeights?: Partial<Record<MemoryType, number>>;
+	// The remaining options default to the MEMORY_* env vars, see getRetrievalConfig
+	mode?: MemorySearchMode;
+	topK?: number;
+	// Minimum vector similarity; keyword hits only need to contain a query term
+	minScore?: number;
+	rerank?: boolean;
+}
+
+export function isMemoryType(value: unknown): value is MemoryType {
+	return typeof value === "string" && (MEMORY_TYPES as readonly string[]).includes(value);
+}
+
+// Identifies whose memories a request may read or write. Vectors are stored in a
+// Vectorize namespace per user, so queries never cross user boundaries.
+export interface MemoryScope {
+	userId: string;
+	conversationId?: string;
+}
+
+// Vectorize caps namespaces at 64 bytes
+export const SCOPE_ID_PATTERN = /^[A-Za-z0-9_-]{1,48}$/;
+const GET_BY_IDS_BATCH_SIZE = 20;
+
+// Memory IDs are ULIDs: 48 bits of millisecond time and 80 random bits in Crockford base32.
+// They need no shared counter, so concurrent writers can never hand out the same ID.
+const ULID_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+export const ULID_PATTERN = /^[0-9A-HJKMNP-TV-Z]{26}$/;
+
+export function generateUlid(time: number = Date.now()): string {
+	let timePart = "";
+	for (let i = 0; i < 10; i++) {
+		timePart = ULID_ALPHABET[time % 32] + timePart;
+		time = Math.floor(time / 32);
+	}
+	const random = crypto.getRandomValues(new Uint8Array(16));
+	let randomPart = "";
+	for (let i = 0; i < 16; i++) {
+		randomPart += ULID_ALPHABET[random[i] % 32];
+	}
+	return timePart + randomPart;
+}
+
+// Milliseconds since the epoch at which the ULID was generated.
+export function ulidTime(id: string): number {
+	return Array.from(id.slice(0, 10)).reduce((time, char) => time * 32 + ULID_ALPHABET.indexOf(char), 0);
+}
+
+// Map each ULID character to its mirror in the alphabet, so that ascending KV key order
+// lists the newest memories first. Applying it twice gives back the original ID.
+function invertUlid(id: string): string {
+	return Array.from(id, (char) => ULID_ALPHABET[31 - ULID_ALPHABET.indexOf(char)]).join("");
+}
+
+// The ID index: one KV key per memory, so inserts from concurrent requests never contend
+// for the same key. Key metadata carries what list, delete and retention need to filter on.
+interface MemoryIndexMetadata {
+	type?: string;
+	conversationId?: string;
+	pinned?: boolean;
+	// When the memory was stored or last revised; missing from entries indexed before it was kept
+	timestamp?: string;
+}
+
+const MEMORY_INDEX_PAGE_SIZE = 100;
+
+function memoryIndexPrefix(userId: string): string {
+	return `memories:${userId}:`;
+}
+
+function memoryIndexKey(userId: string, id: string): string {
+	return memoryIndexPrefix(userId) + invertUlid(id);
+}
+
+async function indexUserMemory(env: Env, userId: string, vector: VectorizeVector): Promise<void> {
+	const metadata: MemoryIndexMetadata = { type: vector.metadata?.type };
+	if (vector.metadata?.conversationId) {
+		metadata.conversationId = vector.metadata.conversationId;
+	}
+	if (vector.metadata?.pinned) {
+		metadata.pinned = true;
+	}
+	if (vector.metadata?.timestamp) {
+		metadata.timestamp = vector.metadata.timestamp;
+	}
+	await env.messageId.put(memoryIndexKey(userId, vector.id), "", { metadata });
+}
+
+async function unindexUserMemories(env: Env, userId: string, ids: string[]): Promise<void> {
+	await Promise.all(ids.map((id) => env.messageId.delete(memoryIndexKey(userId, id))));
+}
+
+export interface MemoryIndexEntry extends MemoryIndexMetadata {
+	id: string;
+}
+
+// One page of the user's index entries, newest first.
+export async function listMemoryIndexEntries(env: Env, userId: string, cursor: string | null, limit: number): Promise<{ entries: MemoryIndexEntry[]; nextCursor: string | null }> {
+	const prefix = memoryIndexPrefix(userId);
+	const page = await env.messageId.list<MemoryIndexMetadata>({ prefix, limit, cursor });
+	const entries = page.keys.map((key) => ({ ...key.metadata, id: invertUlid(key.name.slice(prefix.length)) }));
+	return { entries, nextCursor: page.list_complete ? null : page.cursor };
+}
+
+// One page of the user's memory IDs, newest first, optionally limited to one conversation.
+// Filtered pages can come back short; keep following nextCursor until it is null.
+async function listUserMemoryIds(env: Env, scope: MemoryScope, cursor: string | null, limit: number): Promise<{ ids: string[]; nextCursor: string | null }> {
+	const page = await listMemoryIndexEntries(env, scope.userId, cursor, limit);
+	const ids = page.entries
+		.filter((entry) => !scope.conversationId || entry.conversationId === scope.conversationId)
+		.map((entry) => entry.id);
+	return { ids, nextCursor: page.nextCursor };
+}
+
+// Before ULIDs, memory IDs were "<userId>:<n>" handed out by a KV counter. Move any such
+// memories to ULIDs (keeping their original time order) and into the index, then drop the counter.
+async function migrateLegacyMemories(env: Env, userId: string): Promise<void> {
+	const counterKey = `currentId:${userId}`;
+	const currentId = parseInt((await env.messageId.get(counterKey)) || "0");
+	if (!(currentId > 0)) {
+		return;
+	}
+
+	const legacyIds = Array.from({ length: currentId }, (_, i) => `${userId}:${i + 1}`);
+	const legacyVectors = await getUserMemoryVectors(env, userId, legacyIds);
+	for (const legacy of legacyVectors) {
+		const createdAt = Date.parse(legacy.metadata?.timestamp || "");
+		const vector: VectorizeVector = { ...legacy, id: generateUlid(Number.isFinite(createdAt) ? createdAt : Date.now()), namespace: userId };
+		await env.VECTORIZE.upsert([vector]);
+		await indexUserMemory(env, userId, vector);
+		await indexMemoryText(env, [vector]);
+
+		const revisions = await env.messageId.get(revisionsKey(legacy.id));
+		if (revisions) {
+			await env.messageId.put(revisionsKey(vector.id), revisions);
+			await env.messageId.delete(revisionsKey(legacy.id));
+		}
+	}
+	if (legacyVectors.length > 0) {
+		await env.VECTORIZE.deleteByIds(legacyVectors.map((vector) => vector.id));
+	}
+	await env.messageId.delete(counterKey);
+}
+
+// Fetch vectors by ID in batches, dropping anything that does not belong to the user.
+export async function getUserMemoryVectors(env: Env, userId: string, ids: string[]): Promise<VectorizeVector[]> {
+	const vectors: VectorizeVector[] = [];
+	for (let i = 0; i < ids.length; i += GET_BY_IDS_BATCH_SIZE) {
+		const batch = await env.VECTORIZE.getByIds(ids.slice(i, i + GET_BY_IDS_BATCH_SIZE));
+		batch.forEach((vector) => {
+			const metadata = vector.metadata as MemoryMetadata | undefined;
+			if (metadata && metadata.userId === userId) {
+				vectors.push({ id: vector.id, values: Array.from(vector.values), namespace: vector.namespace, metadata });
+			}
+		});
+	}
+	return vectors;
+}
+
+function toDocumentReference(metadata: MemoryMetadata): DocumentReference | undefined {
+	if (!metadata.documentId) {
+		return undefined;
+	}
+	return { documentId: metadata.documentId, source: metadata.source || "", offset: metadata.offset ?? 0 };
+}
+
+// A previous state of a memory that was merged with or superseded by a newer one.
+export interface MemoryRevision {
+	revision: number;
+	text: string;
+	timestamp: string;
+	replacedAt: string;
+	reason: "merged" | "updated" | "edited";
+}
+
+type MemoryStoreAction = "inserted" | "merged" | "updated";
+
+export interface StoredMemory {
+	id: string;
+	type: MemoryType;
+	action: MemoryStoreAction;
+}
+
+interface SimilarMemory {
+	id: string;
+	score: number;
+	metadata: MemoryMetadata;
+}
+
+const DEFAULT_DEDUP_THRESHOLD = 0.95;
+const DEFAULT_CONFLICT_THRESHOLD = 0.8;
+
+// Revisions are kept in KV rather than vector metadata, which is capped at 10 KiB per vector.
+function revisionsKey(vectorId: string): string {
+	return `revisions:${vectorId}`;
+}
+
+export async function getMemoryRevisions(env: Env, vectorId: string): Promise<MemoryRevision[]> {
+	return (await env.messageId.get<MemoryRevision[]>(revisionsKey(vectorId), "json")) || [];
+}
+
+async function deleteMemoryRevisions(env: Env, vectorIds: string[]): Promise<void> {
+	await Promise.all(vectorIds.map((id) => env.messageId.delete(revisionsKey(id))));
+}
+
+// Find the closest existing memory of the same type in the user's namespace.
+async function findSimilarMemory(env: Env, scope: MemoryScope, vector: number[], type: MemoryType, model: string): Promise<SimilarMemory | null> {
+	const matches = await getLogger(env).span("vectorize.query", { userId: scope.userId, topK: 3 }, () => env.VECTORIZE.query(vector, {
+		topK: 3,
+		namespace: scope.userId,
+		returnMetadata: "all",
+	}));
+	for (const match of matches.matches) {
+		const metadata = match.metadata as MemoryMetadata | undefined;
+		// Scores against vectors from another embedding model (mid-migration) are meaningless
+		if (metadata && metadata.memory && metadata.userId === scope.userId && (metadata.type || "user_message") === type && vectorEmbeddingModel(metadata) === model) {
+			return { id: match.id, score: match.score, metadata };
+		}
+	}
+	return null;
+}
+
+const CONFLICT_JUDGMENT_PROMPT = `You maintain a long-term memory about a user. Compare an existing memory with a new one and \
+reply with exactly one word: SAME if they state the same thing, UPDATE if the new memory corrects, contradicts or supersedes \
+the existing one, or DIFFERENT if they are about different things.`;
+
+// Ask the LLM whether a new memory repeats, supersedes or is unrelated to an existing one.
+async function judgeMemoryConflict(llm: LlmClient, existing: string, incoming: string): Promise<"same" | "update" | "different"> {
+	const verdict = (await llm.complete([
+		{ role: "system", content: CONFLICT_JUDGMENT_PROMPT },
+		{ role: "user", content: `Existing memory: ${existing}\nNew memory: ${incoming}` }
+	])).trim().toUpperCase();
+	if (verdict.startsWith("SAME")) {
+		return "same";
+	}
+	if (verdict.startsWith("UPDATE")) {
+		return "update";
+	}
+	return "different";
+}
+
+// Replace an existing memory with new text, archiving its previous state as a revision. The memory
+// keeps the conversation it was first stored in, so conversation filters still find it there.
+async function reviseMemory(env: Env, scope: MemoryScope, existing: SimilarMemory, memory: NewMemory, vector: number[], reason: MemoryRevision["reason"]): Promise<void> {
+	const now = new Date().toISOString();
+	const revision = existing.metadata.revision || 1;
+	const revisions = await getMemoryRevisions(env, existing.id);
+	revisions.push({
+		revision,
+		text: existing.metadata.memory || "",
+		timestamp: existing.metadata.timestamp || now,
+		replacedAt: now,
+		reason
+	});
+	await env.messageId.put(revisionsKey(existing.id), JSON.stringify(revisions));
+
+	const metadata: MemoryMetadata = {
+		...existing.metadata,
+		memory: memory.text,
+		timestamp: now,
+		revision: revision + 1,
+		embeddingModel: getEmbeddingModel(env),
+		embeddingDimensions: vector.length
+	};
+	const revised: VectorizeVector = { id: existing.id, values: vector, namespace: scope.userId, metadata };
+	await env.VECTORIZE.upsert([revised]);
+	await indexUserMemory(env, scope.userId, revised);
+	await indexMemoryText(env, [revised]);
+}
+
+// Store memories, folding each into its closest existing memory of the same type when they are
+// near-identical (MEMORY_DEDUP_THRESHOLD). Between MEMORY_CONFLICT_THRESHOLD and that, and when
+// MEMORY_CONFLICT_RESOLUTION is enabled, the LLM decides whether the new memory supersedes the old.
+export async function storeUserMemory(env: Env, scope: MemoryScope, memories: NewMemory[], llm?: LlmClient): Promise<StoredMemory[]> {
+	if (memories.length === 0) {
+		return [];
+	}
+	const stored = await getLogger(env).span("memory.store", { userId: scope.userId, count: memories.length }, async () => {
+		// Generate embeddings for all memory texts, batched as few calls as the model allows
+		const model = getEmbeddingModel(env);
+		const embeddings = await embedTexts(env, memories.map((memory) => memory.text), model);
+
+		const dedupThreshold = parseNumber(env.MEMORY_DEDUP_THRESHOLD, DEFAULT_DEDUP_THRESHOLD);
+		const conflictThreshold = parseNumber(env.MEMORY_CONFLICT_THRESHOLD, DEFAULT_CONFLICT_THRESHOLD);
+		const resolveConflicts = env.MEMORY_CONFLICT_RESOLUTION === "true" && llm !== undefined;
+
+		const stored: StoredMemory[] = [];
+		const pending: Array<{ memory: NewMemory; vector: number[] }> = [];
+		for (let i = 0; i < memories.length; i++) {
+			const memory = memories[i];
+			const vector = embeddings[i];
+			// Every image, document chunk and summary is its own memory, however alike two of them
+			// read; a summary must not merge into the memories it replaces
+			const similar = memory.imageId || memory.document || memory.type === "summary" ? null : await findSimilarMemory(env, scope, vector, memory.type, model);
+
+			if (similar && similar.score >= dedupThreshold) {
+				await reviseMemory(env, scope, similar, memory, vector, "merged");
+				stored.push({ id: similar.id, type: memory.type, action: "merged" });
+				continue;
+			}
+			if (similar && resolveConflicts && similar.score >= conflictThreshold) {
+				const verdict = await judgeMemoryConflict(llm!, similar.metadata.memory || "", memory.text);
+				if (verdict !== "different") {
+					const action = verdict === "same" ? "merged" : "updated";
+					await reviseMemory(env, scope, similar, memory, vector, action);
+					stored.push({ id: similar.id, type: memory.type, action });
+					continue;
+				}
+			}
+			pending.push({ memory, vector });
+		}
+
+		if (pending.length === 0) {
+			return stored;
+		}
+
+		// Convert the vector embeddings into a format Vectorize can accept
+		const timestamp = new Date().toISOString();
+		let vectors: VectorizeVector[] = [];
+		pending.forEach(({ memory, vector }) => {
+			const id = generateUlid();
+			const metadata: MemoryMetadata = {
+				memory: memory.text,
+				timestamp,
+				type: memory.type,
+				userId: scope.userId,
+				revision: 1,
+				embeddingModel: model,
+				embeddingDimensions: vector.length
+			};
+			if (scope.conversationId) {
+				metadata.conversationId = scope.conversationId;
+			}
+			if (memory.imageId) {
+				metadata.imageId = memory.imageId;
+			}
+			if (memory.document) {
+				metadata.documentId = memory.document.documentId;
+				metadata.source = memory.document.source;
+				metadata.offset = memory.document.offset;
+			}
+			vectors.push({
+				id,
+				values: vector,
+				namespace: scope.userId,
+				metadata
+			});
+			stored.push({ id, type: memory.type, action: "inserted" });
+		});
+
+		// Insert into Vectorize, then record the new IDs in the index and the text for keyword search
+		const inserted = await env.VECTORIZE.insert(vectors);
+		await Promise.all(vectors.map((vector) => indexUserMemory(env, scope.userId, vector)));
+		await indexMemoryText(env, vectors);
+		getLogger(env).debug("memories_stored", { mutationId: inserted.mutationId, stored });
+		return stored;
+	});
+	// Any memory, a recorded chat turn included, may change what a later prompt retrieves
+	if (stored.length > 0) {
+		await invalidateResponseCache(env, scope.userId);
+	}
+	return stored;
+}
+
+// Parse MEMORY_TYPE_WEIGHTS, e.g. "fact:1.2,user_message:1,assistant_message:0.8"
+function getMemoryTypeWeights(env: Env): Partial<Record<MemoryType, number>> {
+	const weights: Partial<Record<MemoryType, number>> = {};
+	(env.MEMORY_TYPE_WEIGHTS || "").split(",").forEach((entry) => {
+		const [type, weight] = entry.split(":").map((part) => part.trim());
+		const value = parseFloat(weight);
+		if (isMemoryType(type) && Number.isFinite(value)) {
+			weights[type] = value;
+		}
+	});
+	return weights;
+}
+
+interface RetrievalConfig {
+	mode: MemorySearchMode;
+	topK: number;
+	candidates: number;
+	minScore: number;
+	recencyHalfLifeDays: number;
+	recencyWeight: number;
+	rerank: boolean;
+	rerankModel: RerankModel;
+}
+
+// Vectorize returns at most 20 matches when metadata is requested
+export const MAX_MEMORY_CANDIDATES = 20;
+// Workers AI cross-encoders MEMORY_RERANK_MODEL can name
+const RERANK_MODELS = ["@cf/baai/bge-reranker-base"] as const;
+type RerankModel = (typeof RERANK_MODELS)[number];
+const DEFAULT_RERANK_MODEL: RerankModel = "@cf/baai/bge-reranker-base";
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Reciprocal rank fusion damping: the higher it is, the less the top ranks of either search dominate
+const RRF_K = 60;
+
+export function isMemorySearchMode(value: unknown): value is MemorySearchMode {
+	return typeof value === "string" && (MEMORY_SEARCH_MODES as readonly string[]).includes(value);
+}
+
+function isRerankModel(value: unknown): value is RerankModel {
+	return typeof value === "string" && (RERANK_MODELS as readonly string[]).includes(value);
+}
+
+function getRetrievalConfig(env: Env): RetrievalConfig {
+	if (env.MEMORY_RERANK_MODEL && !isRerankModel(env.MEMORY_RERANK_MODEL)) {
+		getLogger(env).warn("rerank_model_unsupported", { model: env.MEMORY_RERANK_MODEL, fallback: DEFAULT_RERANK_MODEL });
+	}
+	const topK = Math.max(1, Math.floor(parseNumber(env.MEMORY_TOP_K, 3)));
+	return {
+		mode: isMemorySearchMode(env.MEMORY_SEARCH_MODE) ? env.MEMORY_SEARCH_MODE : "vector",
+		topK,
+		candidates: Math.min(MAX_MEMORY_CANDIDATES, Math.max(topK, Math.floor(parseNumber(env.MEMORY_CANDIDATES, 10)))),
+		minScore: parseNumber(env.MEMORY_MIN_SCORE, 0),
+		recencyHalfLifeDays: parseNumber(env.MEMORY_RECENCY_HALF_LIFE_DAYS, 0),
+		recencyWeight: Math.min(1, Math.max(0, parseNumber(env.MEMORY_RECENCY_WEIGHT, 0))),
+		rerank: env.MEMORY_RERANK === "true",
+		rerankModel: isRerankModel(env.MEMORY_RERANK_MODEL) ? env.MEMORY_RERANK_MODEL : DEFAULT_RERANK_MODEL
+	};
+}
+
+// Blend in an exponential decay on memory age: a memory one half-life old keeps
+// (1 - weight / 2) of its score. Memories without a timestamp are not decayed.
+function applyRecencyDecay(score: number, timestamp: string | undefined, config: RetrievalConfig, now: number): number {
+	if (config.recencyHalfLifeDays <= 0 || config.recencyWeight <= 0 || !timestamp) {
+		return score;
+	}
+	const ageDays = Math.max(0, (now - Date.parse(timestamp)) / MS_PER_DAY);
+	if (!Number.isFinite(ageDays)) {
+		return score;
+	}
+	const decay = Math.pow(0.5, ageDays / config.recencyHalfLifeDays);
+	return score * (1 - config.recencyWeight + config.recencyWeight * decay);
+}
+
+// Score candidates against the query with a Workers AI cross-encoder.
+async function rerankMemories(env: Env, model: RerankModel, query: string, memories: RetrievedMemory[]): Promise<void> {
+	const result = await env.AI.run(model, {
+		query,
+		contexts: memories.map((memory) => ({ text: memory.text })),
+		top_k: memories.length
+	});
+	(result.response || []).forEach((ranked) => {
+		if (ranked.id !== undefined && ranked.score !== undefined && memories[ranked.id]) {
+			memories[ranked.id].rerankScore = ranked.score;
+		}
+	});
+}
+
+// Turn stored metadata into a retrieved memory, unscored; null unless it is one of the user's
+// memories and passes the filters.
+function toRetrievedMemory(id: string, metadata: MemoryMetadata | undefined, scope: MemoryScope, filters: MemoryFilters): RetrievedMemory | null {
+	if (!metadata || !metadata.memory || metadata.userId !== scope.userId) {
+		return null;
+	}
+	// Memories stored before typing was introduced are user messages
+	const type = isMemoryType(metadata.type) ? metadata.type : "user_message";
+	if (filters.types && !filters.types.includes(type)) {
+		return null;
+	}
+	if (filters.conversationId && metadata.conversationId !== filters.conversationId) {
+		return null;
+	}
+	// ISO 8601 timestamps in UTC compare correctly as strings
+	const timestamp = metadata.timestamp || "";
+	if ((filters.from && !(timestamp >= filters.from)) || (filters.to && !(timestamp <= filters.to))) {
+		return null;
+	}
+	return {
+		id,
+		text: metadata.memory,
+		type,
+		timestamp: metadata.timestamp,
+		imageId: metadata.imageId,
+		document: toDocumentReference(metadata),
+		score: 0
+	};
+}
+
+// The memories most similar to the query with at least minScore similarity, best first.
+async function vectorSearch(env: Env, scope: MemoryScope, userQuery: string, filters: MemoryFilters, candidates: number, minScore: number): Promise<RetrievedMemory[]> {
+	// Embed the query with every model whose vectors may be stored. While memories are being
+	// re-embedded that is the old and the new model, and each query keeps only its model's vectors.
+	const models = await getQueryEmbeddingModels(env);
+	const queryVectors = await Promise.all(models.map(async (model) => (await embedTexts(env, [userQuery], model))[0]));
+
+	// Query Vectorize for similar memories, restricted to the caller's namespace
+	const results = await Promise.all(queryVectors.map((queryVector) => getLogger(env).span("vectorize.query", { userId: scope.userId, topK: candidates }, () => env.VECTORIZE.query(queryVector, {
+		topK: candidates,
+		namespace: scope.userId,
+		returnMetadata: "all",
+	}))));
+	const matches = results.flatMap((result, i) => (result?.matches || [])
+		.filter((match) => vectorEmbeddingModel(match.metadata as MemoryMetadata | undefined) === models[i]));
+
+	const memories: RetrievedMemory[] = [];
+	matches.forEach((match) => {
+		const memory = match.score >= minScore ? toRetrievedMemory(match.id, match.metadata as MemoryMetadata | undefined, scope, filters) : null;
+		if (memory) {
+			memories.push({ ...memory, similarity: match.score, score: match.score });
+		}
+	});
+	return memories.sort((a, b) => b.score - a.score);
+}
+
+// Keyword hits as memories, best first. Hits are read back from Vectorize, which also drops index
+// rows whose memory has since been deleted; memories the vector search already found are reused.
+async function toKeywordRanking(env: Env, scope: MemoryScope, hits: KeywordHit[], filters: MemoryFilters, found: RetrievedMemory[]): Promise<RetrievedMemory[]> {
+	const byId = new Map(found.map((memory) => [memory.id, memory]));
+	const missing = hits.map((hit) => hit.id).filter((id) => !byId.has(id));
+	for (const vector of await getUserMemoryVectors(env, scope.userId, missing)) {
+		const memory = toRetrievedMemory(vector.id, vector.metadata, scope, filters);
+		if (memory) {
+			byId.set(memory.id, memory);
+		}
+	}
+	return hits.flatMap((hit) => {
+		const memory = byId.get(hit.id);
+		return memory ? [{ ...memory, keywordScore: hit.score, score: hit.score }] : [];
+	});
+}
+
+// Reciprocal rank fusion: a memory scores 1 / (RRF_K + rank) for each ranking it appears in, so
+// memories both searches rank highly come first without comparing similarity to BM25 scores.
+function fuseRankings(rankings: RetrievedMemory[][]): RetrievedMemory[] {
+	const fused = new Map<string, RetrievedMemory>();
+	rankings.forEach((ranking) => ranking.forEach((memory, i) => {
+		const existing = fused.get(memory.id);
+		fused.set(memory.id, { ...existing, ...memory, score: (existing?.score ?? 0) + 1 / (RRF_K + i + 1) });
+	}));
+	return Array.from(fused.values());
+}
+
+export async function searchMemories(env: Env, scope: MemoryScope, userQuery: string, options: MemoryRetrievalOptions = {}): Promise<RetrievedMemory[]> {
+	const config = getRetrievalConfig(env);
+	const mode = options.mode ?? config.mode;
+	const topK = options.topK ?? config.topK;
+	const minScore = options.minScore ?? config.minScore;
+	// Fetch extra candidates so filtering, reranking and weighting still leave enough to choose from
+	const candidates = Math.min(MAX_MEMORY_CANDIDATES, Math.max(topK, config.candidates));
+
+	let memories: RetrievedMemory[];
+	if (mode === "vector") {
+		memories = await vectorSearch(env, scope, userQuery, options, candidates, minScore);
+	} else if (mode === "keyword") {
+		memories = await toKeywordRanking(env, scope, await searchMemoryText(env, scope.userId, userQuery, options, candidates), options, []);
+	} else {
+		const [vectorHits, keywordHits] = await Promise.all([
+			vectorSearch(env, scope, userQuery, options, candidates, minScore),
+			searchMemoryText(env, scope.userId, userQuery, options, candidates).catch((keywordError) => {
+				// Fall back to vector results rather than failing retrieval
+				getLogger(env).warn("keyword_search_failed", { error: keywordError });
+				return [];
+			})
+		]);
+		memories = fuseRankings([vectorHits, await toKeywordRanking(env, scope, keywordHits, options, vectorHits)]);
+	}
+
+	const typeWeights = options.typeWeights || getMemoryTypeWeights(env);
+
+	if ((options.rerank ?? config.rerank) && memories.length > 1) {
+		try {
+			await rerankMemories(env, config.rerankModel, userQuery, memories);
+		} catch (rerankError) {
+			// Fall back to vector similarity rather than failing retrieval
+			getLogger(env).warn("rerank_failed", { model: config.rerankModel, error: rerankError });
+		}
+	}
+
+	const now = Date.now();
+	memories.forEach((memory) => {
+		const relevance = memory.rerankScore ?? memory.score;
+		memory.score = applyRecencyDecay(relevance * (typeWeights[memory.type] ?? 1), memory.timestamp, config, now);
+	});
+
+	memories.sort((a, b) => b.score - a.score);
+	return memories.slice(0, topK);
+}
+
+// Retrieval for chat: like searchMemories, but failures only cost the chat its memories.
+export async function getMemoryByChat(env: Env, scope: MemoryScope, userQuery: string, options: MemoryRetrievalOptions = {}): Promise<RetrievedMemory[]> {
+	try {
+		const memories = await searchMemories(env, scope, userQuery, options);
+		getLogger(env).debug("memories_retrieved", { userId: scope.userId, ids: memories.map((memory) => memory.id) });
+		return memories;
+	} catch (error) {
+		getLogger(env).error("memory_retrieval_failed", { userId: scope.userId, error });
+		return [];
+	}
+}
+// The retrieval details reported back to chat clients
+export function describeUsedMemories(memories: RetrievedMemory[]) {
+	return memories.map((memory) => ({
+		id: memory.id,
+		type: memory.type,
+		text: memory.text,
+		similarity: memory.similarity ?? null,
+		keywordScore: memory.keywordScore ?? null,
+		rerankScore: memory.rerankScore ?? null,
+		score: memory.score,
+		imageId: memory.imageId ?? null,
+		document: memory.document ?? null
+	}));
+}
+
+const MEMORY_PROMPT_LABELS: Record<MemoryType, string> = {
+	fact: "Known fact about the user",
+	user_message: "The user previously said",
+	assistant_message: "You previously replied",
+	image: "An image the user shared earlier showed",
+	document: "An excerpt from a document the user shared",
+	summary: "Summary of earlier memories"
+};
+
+export function formatMemoryForPrompt(memory: RetrievedMemory): string {
+	const label = MEMORY_PROMPT_LABELS[memory.type];
+	return memory.document ? `${label} ("${memory.document.source}"): ${memory.text}` : `${label}: ${memory.text}`;
+}
+
+const MAX_EXTRACTED_FACTS = 5;
+const FACT_EXTRACTION_PROMPT = `You extract durable facts about the user from one chat exchange, such as preferences, \
+biographical details, plans or long-lived context. Ignore small talk, questions and anything only relevant to this exchange. \
+Write each fact as a short standalone sentence about "User", e.g. "User prefers Python" or "User lives in Oslo". \
+Reply with only a JSON array of strings, or [] when there is nothing worth remembering.`;
+
+// Ask the LLM to distill durable facts from an exchange. Returns [] when the reply is unusable.
+async function extractFacts(llm: LlmClient, userMessage: string, reply: string): Promise<string[]> {
+	const response = await llm.complete([
+		{ role: "system", content: FACT_EXTRACTION_PROMPT },
+		{ role: "user", content: `User: ${userMessage}\n\nAssistant: ${reply}` }
+	]);
+
+	const start = response.indexOf("[");
+	const end = response.lastIndexOf("]");
+	if (start === -1 || end <= start) {
+		return [];
+	}
+	try {
+		const facts: unknown = JSON.parse(response.slice(start, end + 1));
+		if (!Array.isArray(facts)) {
+			return [];
+		}
+		return facts
+			.filter((fact): fact is string => typeof fact === "string" && fact.trim().length > 0)
+			.map((fact) => fact.trim())
+			.slice(0, MAX_EXTRACTED_FACTS);
+	} catch {
+		return [];
+	}
+}
+
+// Store both turns of an exchange (plus any extracted facts when FACT_EXTRACTION is enabled)
+// as memories. Failures are logged rather than thrown, as the reply has already been sent.
+export async function rememberExchange(env: Env, llm: LlmClient, scope: MemoryScope, userMessage: string, reply: string): Promise<void> {
+	// A message that only carried images has no text of its own to remember
+	const memories: NewMemory[] = [
+		{ text: userMessage, type: "user_message" as const },
+		{ text: reply, type: "assistant_message" as const }
+	].filter((memory) => memory.text.trim());
+	if (env.FACT_EXTRACTION === "true") {
+		try {
+			const facts = await extractFacts(llm, userMessage, reply);
+			facts.forEach((fact) => memories.push({ text: fact, type: "fact" }));
+		} catch (extractionError) {
+			getLogger(env).warn("fact_extraction_failed", { error: extractionError });
+		}
+	}
+
+	try {
+		await storeUserMemory(env, scope, memories, llm);
+	} catch (memoryError) {
+		getLogger(env).error("exchange_store_failed", { userId: scope.userId, error: memoryError });
+	}
+}
+
+export interface MemoryRecord {
+	id: string;
+	vector: string;
+	message: string;
+	type: string;
+	revision: number;
+	timestamp: string;
+	conversationId: string | null;
+	imageId: string | null;
+	document: DocumentReference | null;
+	pinned: boolean;
+}
+
+export const DEFAULT_MEMORY_PAGE_SIZE = 10;
+export const MAX_MEMORY_PAGE_SIZE = 50;
+
+export function toMemoryRecord(vector: VectorizeVector): MemoryRecord {
+	const values = vector.values || [];
+	const vectorPreview = values.length > 0 ?
+		`[${values[0].toFixed(4)}, ..., ${values[values.length - 1].toFixed(4)}]` :
+		'[]';
+	return {
+		id: vector.id,
+		vector: vectorPreview,
+		message: vector.metadata?.memory || "",
+		type: vector.metadata?.type || "user_message",
+		revision: vector.metadata?.revision || 1,
+		timestamp: vector.metadata?.timestamp || 'Unknown',
+		conversationId: vector.metadata?.conversationId || null,
+		imageId: vector.metadata?.imageId || null,
+		document: vector.metadata ? toDocumentReference(vector.metadata) ?? null : null,
+		pinned: vector.metadata?.pinned === true
+	};
+}
+
+// One page of the user's memories, newest first, driven by the ID index.
+export async function listUserMemories(env: Env, scope: MemoryScope, cursor: string | null, limit: number): Promise<{ memories: MemoryRecord[]; nextCursor: string | null }> {
+	await migrateLegacyMemories(env, scope.userId);
+	const page = await listUserMemoryIds(env, scope, cursor, limit);
+	const vectors = await getUserMemoryVectors(env, scope.userId, page.ids);
+	const byId = new Map(vectors.map((vector) => [vector.id, vector]));
+	const memories = page.ids
+		.map((id) => byId.get(id))
+		.filter((vector): vector is VectorizeVector => vector !== undefined && !!vector.metadata?.memory)
+		.map(toMemoryRecord);
+	return { memories, nextCursor: page.nextCursor };
+}
+
+export async function getUserMemory(env: Env, scope: MemoryScope, id: string): Promise<VectorizeVector | null> {
+	const [vector] = await getUserMemoryVectors(env, scope.userId, [id]);
+	return vector || null;
+}
+
+// Replace a memory's text (and optionally type), re-embedding it and archiving the old text.
+export async function editUserMemory(env: Env, scope: MemoryScope, existing: VectorizeVector, text: string, type: MemoryType): Promise<VectorizeVector> {
+	const model = getEmbeddingModel(env);
+	const [vector] = await embedTexts(env, [text], model);
+
+	const now = new Date().toISOString();
+	const revision = existing.metadata?.revision || 1;
+	const revisions = await getMemoryRevisions(env, existing.id);
+	revisions.push({
+		revision,
+		text: existing.metadata?.memory || "",
+		timestamp: existing.metadata?.timestamp || now,
+		replacedAt: now,
+		reason: "edited"
+	});
+	await env.messageId.put(revisionsKey(existing.id), JSON.stringify(revisions));
+
+	const updated: VectorizeVector = {
+		id: existing.id,
+		values: vector,
+		namespace: scope.userId,
+		metadata: { ...existing.metadata, memory: text, type, timestamp: now, revision: revision + 1, embeddingModel: model, embeddingDimensions: vector.length }
+	};
+	await env.VECTORIZE.upsert([updated]);
+	await indexUserMemory(env, scope.userId, updated);
+	await indexMemoryText(env, [updated]);
+	await invalidateResponseCache(env, scope.userId);
+	return updated;
+}
+
+// Pin or unpin a memory. Only the flag changes, so there is no new revision or embedding.
+export async function pinUserMemory(env: Env, scope: MemoryScope, existing: VectorizeVector, pinned: boolean): Promise<VectorizeVector> {
+	const metadata: MemoryMetadata = { ...existing.metadata };
+	if (pinned) {
+		metadata.pinned = true;
+	} else {
+		delete metadata.pinned;
+	}
+	const updated: VectorizeVector = { ...existing, metadata };
+	await env.VECTORIZE.upsert([updated]);
+	await indexUserMemory(env, scope.userId, updated);
+	return updated;
+}
+
+// Delete memories along with their index entries and revision history.
+export async function deleteUserMemories(env: Env, userId: string, ids: string[]): Promise<void> {
+	await env.VECTORIZE.deleteByIds(ids);
+	await unindexUserMemories(env, userId, ids);
+	await unindexMemoryText(env, ids);
+	await deleteMemoryRevisions(env, ids);
+	await invalidateResponseCache(env, userId);
+}
+
+// Delete all of the user's memories, or only one conversation's when the scope names one.
+// Walks the ID index page by page and returns the deleted IDs.
+export async function deleteScopedMemories(env: Env, scope: MemoryScope): Promise<string[]> {
+	await migrateLegacyMemories(env, scope.userId);
+
+	const deleted: string[] = [];
+	let cursor: string | null = null;
+	do {
+		const page = await listUserMemoryIds(env, scope, cursor, MEMORY_INDEX_PAGE_SIZE);
+		if (page.ids.length > 0) {
+			await deleteUserMemories(env, scope.userId, page.ids);
+			deleted.push(...page.ids);
+		}
+		cursor = page.nextCursor;
+	} while (cursor);
+	return deleted;
+}
+
+// One line of a memory export (JSONL). Vectors are only included on request, together with the
+// model that produced them; an import re-embeds records without them or from another model.
+export interface MemoryExportRecord {
+	id: string;
+	text: string;
+	type: MemoryType;
+	timestamp: string;
+	revision: number;
+	conversationId?: string;
+	imageId?: string;
+	document?: DocumentReference;
+	pinned?: boolean;
+	embeddingModel?: string;
+	values?: number[];
+}
+
+// An exported record as accepted back by importUserMemories; only text and type are required.
+export type MemoryImportRecord = Partial<Omit<MemoryExportRecord, "text" | "type">> & Pick<MemoryExportRecord, "text" | "type">;
+
+export const MAX_IMPORT_RECORDS = 500;
+
+function toExportRecord(vector: VectorizeVector, includeVectors: boolean): MemoryExportRecord {
+	const metadata = vector.metadata || {};
+	const record: MemoryExportRecord = {
+		id: vector.id,
+		text: metadata.memory || "",
+		type: isMemoryType(metadata.type) ? metadata.type : "user_message",
+		timestamp: metadata.timestamp || "",
+		revision: metadata.revision || 1
+	};
+	if (metadata.conversationId) {
+		record.conversationId = metadata.conversationId;
+	}
+	if (metadata.imageId) {
+		record.imageId = metadata.imageId;
+	}
+	const document = toDocumentReference(metadata);
+	if (document) {
+		record.document = document;
+	}
+	if (metadata.pinned) {
+		record.pinned = true;
+	}
+	if (includeVectors && vector.values) {
+		record.embeddingModel = vectorEmbeddingModel(metadata);
+		record.values = vector.values;
+	}
+	return record;
+}
+
+// Every memory in scope, newest first, read a page of the ID index at a time.
+export async function* exportUserMemories(env: Env, scope: MemoryScope, includeVectors: boolean): AsyncGenerator<MemoryExportRecord> {
+	await migrateLegacyMemories(env, scope.userId);
+
+	let cursor: string | null = null;
+	do {
+		const page = await listUserMemoryIds(env, scope, cursor, MEMORY_INDEX_PAGE_SIZE);
+		for (const vector of await getUserMemoryVectors(env, scope.userId, page.ids)) {
+			yield toExportRecord(vector, includeVectors);
+		}
+		cursor = page.nextCursor;
+	} while (cursor);
+}
+
+// Vector IDs are unique across the whole index, not per namespace. An imported memory keeps its
+// ID unless another user's memory holds it (or it is not a ULID); it then gets an ID derived from
+// the user and the original ID, keeping the original time, so importing again hits the same ID.
+async function resolveImportedIds(env: Env, userId: string, records: MemoryImportRecord[]): Promise<string[]> {
+	const candidates = records.map((record) => record.id && ULID_PATTERN.test(record.id) ? record.id : null);
+	const owners = new Map<string, string | undefined>();
+	const lookup = Array.from(new Set(candidates.filter((id): id is string => id !== null)));
+	for (let i = 0; i < lookup.length; i += GET_BY_IDS_BATCH_SIZE) {
+		const batch = await env.VECTORIZE.getByIds(lookup.slice(i, i + GET_BY_IDS_BATCH_SIZE));
+		batch.forEach((vector) => owners.set(vector.id, (vector.metadata as MemoryMetadata | undefined)?.userId));
+	}
+
+	return Promise.all(records.map(async (record, i) => {
+		const id = candidates[i];
+		if (id && (!owners.has(id) || owners.get(id) === userId)) {
+			return id;
+		}
+		const timePart = id ? id.slice(0, 10) : generateUlid(Date.parse(record.timestamp || "") || 0).slice(0, 10);
+		const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${userId}:${record.id ?? record.text}`)));
+		return timePart + Array.from(digest.subarray(0, 16), (byte) => ULID_ALPHABET[byte % 32]).join("");
+	}));
+}
+
+// Write exported records back as the user's memories. Upserts by ID, so importing the same
+// file twice leaves one copy. Returns the IDs written and how many records were re-embedded.
+export async function importUserMemories(env: Env, scope: MemoryScope, records: MemoryImportRecord[]): Promise<{ ids: string[]; reembedded: number }> {
+	if (records.length === 0) {
+		return { ids: [], reembedded: 0 };
+	}
+	await migrateLegacyMemories(env, scope.userId);
+
+	const model = getEmbeddingModel(env);
+	const ids = await resolveImportedIds(env, scope.userId, records);
+	const stale = records
+		.map((record, i) => ({ record, i }))
+		.filter(({ record }) => !record.values?.length || record.embeddingModel !== model);
+	const embeddings = await embedTexts(env, stale.map(({ record }) => record.text), model);
+	const values = records.map((record) => record.values || []);
+	stale.forEach(({ i }, j) => {
+		values[i] = embeddings[j];
+	});
+
+	const now = new Date().toISOString();
+	const vectors: VectorizeVector[] = records.map((record, i) => {
+		const metadata: MemoryMetadata = {
+			memory: record.text,
+			timestamp: record.timestamp || now,
+			type: record.type,
+			userId: scope.userId,
+			revision: record.revision || 1,
+			embeddingModel: model,
+			embeddingDimensions: values[i].length
+		};
+		// Importing into a conversation files every record under it
+		const conversationId = scope.conversationId || record.conversationId;
+		if (conversationId) {
+			metadata.conversationId = conversationId;
+		}
+		if (record.imageId) {
+			metadata.imageId = record.imageId;
+		}
+		if (record.document) {
+			metadata.documentId = record.document.documentId;
+			metadata.source = record.document.source;
+			metadata.offset = record.document.offset;
+		}
+		if (record.pinned) {
+			metadata.pinned = true;
+		}
+		return { id: ids[i], values: values[i], namespace: scope.userId, metadata };
+	});
+
+	await env.VECTORIZE.upsert(vectors);
+	await Promise.all(vectors.map((vector) => indexUserMemory(env, scope.userId, vector)));
+	await indexMemoryText(env, vectors);
+	await invalidateResponseCache(env, scope.userId);
+	return { ids, reembedded: stale.length };
+}
+
+const EMBEDDING_MIGRATION_BATCH_SIZE = 50;
+
+// Re-embed one batch of memories, across all users, with the configured EMBEDDING_MODEL. Starts
+// a migration when the model changed since the last one, and returns the progress; null when
+// there is nothing to migrate. Vectors are replaced in place, so queries keep working throughout.
+export async function runEmbeddingMigrationBatch(env: Env): Promise<EmbeddingMigration | null> {
+	const target = getEmbeddingModel(env);
+	let migration = await getEmbeddingMigration(env);
+	const now = new Date().toISOString();
+
+	if (!migration || migration.toModel !== target) {
+		// A model changed mid-migration leaves vectors of both of its models behind; the new
+		// migration re-embeds every vector not made by the target, whichever model made it
+		const [fromModel, ...otherModels] = storedEmbeddingModels(migration).filter((model) => model !== target);
+		if (!fromModel) {
+			return migration;
+		}
+		const info = await env.VECTORIZE.describe();
+		migration = { fromModel, toModel: target, status: "running", cursor: null, scanned: 0, reembedded: 0, total: info.vectorCount, startedAt: now, updatedAt: now };
+		if (otherModels.length > 0) {
+			migration.otherModels = otherModels;
+		}
+	}
+	if (migration.status !== "running") {
+		return migration;
+	}
+
+	// Index keys are memories:<userId>:<inverted ULID>, and vector IDs are unique across users
+	const prefix = "memories:";
+	const page = await env.messageId.list({ prefix, limit: EMBEDDING_MIGRATION_BATCH_SIZE, cursor: migration.cursor });
+	const ids = page.keys.map((key) => invertUlid(key.name.slice(key.name.lastIndexOf(":") + 1)));
+	const stale: VectorizeVector[] = [];
+	for (let i = 0; i < ids.length; i += GET_BY_IDS_BATCH_SIZE) {
+		const batch = await env.VECTORIZE.getByIds(ids.slice(i, i + GET_BY_IDS_BATCH_SIZE));
+		batch.forEach((vector) => {
+			const metadata = vector.metadata as MemoryMetadata | undefined;
+			if (metadata?.memory && vectorEmbeddingModel(metadata) !== target) {
+				stale.push({ id: vector.id, values: [], namespace: vector.namespace, metadata });
+			}
+		});
+	}
+
+	if (stale.length > 0) {
+		const embeddings = await embedTexts(env, stale.map((vector) => vector.metadata!.memory!), target);
+		const { dimensions } = await env.VECTORIZE.describe();
+		if (embeddings[0].length !== dimensions) {
+			// A model of another dimension needs a new index: export, rebind VECTORIZE, import
+			migration = {
+				...migration,
+				status: "failed",
+				error: `${target} produces ${embeddings[0].length}-dimensional vectors but the index has ${dimensions} dimensions`,
+				updatedAt: now
+			};
+			await saveEmbeddingMigration(env, migration);
+			return migration;
+		}
+		stale.forEach((vector, i) => {
+			vector.values = embeddings[i];
+			vector.metadata = { ...vector.metadata, embeddingModel: target, embeddingDimensions: embeddings[i].length };
+		});
+		await env.VECTORIZE.upsert(stale);
+	}
+
+	migration = {
+		...migration,
+		cursor: page.list_complete ? null : page.cursor,
+		scanned: migration.scanned + ids.length,
+		reembedded: migration.reembedded + stale.length,
+		updatedAt: now
+	};
+	if (page.list_complete) {
+		migration.status = "completed";
+		migration.completedAt = now;
+	}
+	await saveEmbeddingMigration(env, migration);
+	return migration;
+}
+
+const KEYWORD_BACKFILL_BATCH_SIZE = 50;
+
+// Write one batch of memories, across all users, to the keyword index where they are missing
+// from it: memories stored before the index existed. The first call starts the backfill, which
+// runs once through the memory ID index; afterwards every write indexes its own memories.
+export async function runKeywordBackfillBatch(env: Env): Promise<KeywordBackfill> {
+	const now = new Date().toISOString();
+	let backfill = await getKeywordBackfill(env) ?? { status: "running", cursor: null, scanned: 0, indexed: 0, startedAt: now, updatedAt: now };
+	if (backfill.status !== "running") {
+		return backfill;
+	}
+
+	const prefix = "memories:";
+	const page = await env.messageId.list({ prefix, limit: KEYWORD_BACKFILL_BATCH_SIZE, cursor: backfill.cursor });
+	const ids = page.keys.map((key) => invertUlid(key.name.slice(key.name.lastIndexOf(":") + 1)));
+	const missing = await findUnindexedMemoryIds(env, ids);
+	const vectors: VectorizeVector[] = [];
+	for (let i = 0; i < missing.length; i += GET_BY_IDS_BATCH_SIZE) {
+		const batch = await env.VECTORIZE.getByIds(missing.slice(i, i + GET_BY_IDS_BATCH_SIZE));
+		batch.forEach((vector) => {
+			const metadata = vector.metadata as MemoryMetadata | undefined;
+			if (metadata?.memory) {
+				vectors.push({ id: vector.id, values: [], namespace: vector.namespace, metadata });
+			}
+		});
+	}
+	// A failed write throws before the cursor moves, so the next run retries the batch
+	await backfillMemoryText(env, vectors);
+
+	backfill = {
+		...backfill,
+		cursor: page.list_complete ? null : page.cursor,
+		scanned: backfill.scanned + ids.length,
+		indexed: backfill.indexed + vectors.length,
+		updatedAt: now
+	};
+	if (page.list_complete) {
+		backfill.status = "completed";
+		backfill.completedAt = now;
+	}
+	await saveKeywordBackfill(env, backfill);
+	return backfill;
+}
@@ -0,0 +1,182 @@
+import { cosineSimilarity } from "./embeddings";
+import type { Env } from "./env";
+import type { LlmClient } from "./llm";
+import { getLogger } from "./log";
+import { deleteUserMemories, getUserMemoryVectors, listMemoryIndexEntries, storeUserMemory, ulidTime, type MemoryIndexEntry, type MemoryScope, type VectorizeVector } from "./memory";
+
+// A user's retention settings. Without a policy, memories are kept forever.
+export interface RetentionPolicy {
+	// Remove memories older than this many days
+	maxAgeDays?: number;
+	// Keep at most this many memories, removing the oldest first
+	maxCount?: number;
+	// Condense memories into "summary" memories with the LLM before removing them
+	summarize: boolean;
+	updatedAt: string;
+}
+
+export interface RetentionResult {
+	removed: number;
+	summaries: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const RETENTION_PAGE_SIZE = 100;
+// The most memories removed per user and run; the rest go on the next run
+const MAX_RETENTION_REMOVALS = 200;
+const SUMMARY_CLUSTER_SIMILARITY = 0.75;
+const MAX_SUMMARY_CLUSTER_SIZE = 20;
+
+const SUMMARY_PROMPT = `You condense old memories about a user into one short summary. Keep durable facts, \
+preferences, plans and decisions; drop small talk and anything a later memory supersedes. Write plain sentences \
+about "User", e.g. "User prefers Python and is learning Rust." Reply with only the summary.`;
+
+function retentionKey(userId: string): string {
+	return `retention:${userId}`;
+}
+
+export async function getRetentionPolicy(env: Env, userId: string): Promise<RetentionPolicy | null> {
+	return env.messageId.get<RetentionPolicy>(retentionKey(userId), "json");
+}
+
+// Store the policy, or drop it when it no longer limits anything.
+export async function saveRetentionPolicy(env: Env, userId: string, policy: RetentionPolicy): Promise<RetentionPolicy | null> {
+	if (policy.maxAgeDays === undefined && policy.maxCount === undefined) {
+		await env.messageId.delete(retentionKey(userId));
+		return null;
+	}
+	await env.messageId.put(retentionKey(userId), JSON.stringify(policy));
+	return policy;
+}
+
+// When an index entry's memory was stored or last revised. Entries indexed before the index kept
+// that time fall back to the memory's own metadata, and failing that to its creation time.
+function lastUpdated(entry: MemoryIndexEntry, fetched: Map<string, string | undefined>): number {
+	const time = Date.parse(entry.timestamp || fetched.get(entry.id) || "");
+	return Number.isFinite(time) ? time : ulidTime(entry.id);
+}
+
+// The memories the policy removes, oldest first: those not stored or revised within maxAgeDays
+// and those beyond the newest maxCount. Pinned memories and document chunks, which go with their
+// document, neither count nor expire.
+async function selectExpiredMemories(env: Env, userId: string, policy: RetentionPolicy, now: number): Promise<string[]> {
+	const cutoff = policy.maxAgeDays !== undefined ? now - policy.maxAgeDays * MS_PER_DAY : -Infinity;
+	const expired: string[] = [];
+	let kept = 0;
+	let cursor: string | null = null;
+	do {
+		const page = await listMemoryIndexEntries(env, userId, cursor, RETENTION_PAGE_SIZE);
+		// A memory created before the cutoff may have been revised since
+		const missing = page.entries.filter((entry) => !entry.timestamp && ulidTime(entry.id) < cutoff).map((entry) => entry.id);
+		const fetched = new Map((missing.length > 0 ? await getUserMemoryVectors(env, userId, missing) : [])
+			.map((vector) => [vector.id, vector.metadata?.timestamp]));
+		for (const entry of page.entries) {
+			if (entry.pinned || entry.type === "document") {
+				continue;
+			}
+			if (lastUpdated(entry, fetched) < cutoff || (policy.maxCount !== undefined && kept >= policy.maxCount)) {
+				expired.push(entry.id);
+			} else {
+				kept++;
+			}
+		}
+		cursor = page.nextCursor;
+	} while (cursor);
+	return expired.reverse().slice(0, MAX_RETENTION_REMOVALS);
+}
+
+// Greedy clustering: each memory joins the first cluster whose first member it resembles.
+export function clusterMemories(vectors: VectorizeVector[], threshold: number = SUMMARY_CLUSTER_SIMILARITY): VectorizeVector[][] {
+	const clusters: VectorizeVector[][] = [];
+	for (const vector of vectors) {
+		const cluster = clusters.find((candidate) =>
+			candidate.length < MAX_SUMMARY_CLUSTER_SIZE && cosineSimilarity(candidate[0].values, vector.values) >= threshold);
+		if (cluster) {
+			cluster.push(vector);
+		} else {
+			clusters.push([vector]);
+		}
+	}
+	return clusters;
+}
+
+// A lone memory is carried over word for word; only clusters go through the LLM.
+async function summarizeCluster(llm: LlmClient, cluster: VectorizeVector[]): Promise<string> {
+	if (cluster.length === 1) {
+		return cluster[0].metadata?.memory || "";
+	}
+	const memories = cluster.map((vector) => `- (${vector.metadata?.timestamp || "unknown date"}) ${vector.metadata?.memory || ""}`);
+	const summary = await llm.complete([
+		{ role: "system", content: SUMMARY_PROMPT },
+		{ role: "user", content: memories.join("\n") }
+	]);
+	return summary.trim();
+}
+
+// Enforce one user's policy. With summarization, memories are only removed once their
+// cluster's summary is stored, so an LLM failure leaves them for the next run.
+export async function applyRetentionPolicy(env: Env, userId: string, policy: RetentionPolicy, llm: LlmClient, now: number = Date.now()): Promise<RetentionResult> {
+	const expired = await selectExpiredMemories(env, userId, policy, now);
+	if (expired.length === 0) {
+		return { removed: 0, summaries: 0 };
+	}
+
+	let removable = expired;
+	let summaries = 0;
+	if (policy.summarize) {
+		const vectors = await getUserMemoryVectors(env, userId, expired);
+		const found = new Set(vectors.map((vector) => vector.id));
+		// Index entries whose vectors are already gone have nothing to summarize
+		removable = expired.filter((id) => !found.has(id));
+		for (const cluster of clusterMemories(vectors)) {
+			// A summary that expires on its own has been condensed once already
+			if (cluster.length === 1 && cluster[0].metadata?.type === "summary") {
+				removable.push(cluster[0].id);
+				continue;
+			}
+			try {
+				const text = await summarizeCluster(llm, cluster);
+				if (!text) {
+					continue;
+				}
+				const conversationIds = new Set(cluster.map((vector) => vector.metadata?.conversationId));
+				const scope: MemoryScope = { userId };
+				if (conversationIds.size === 1) {
+					scope.conversationId = [...conversationIds][0];
+				}
+				await storeUserMemory(env, scope, [{ text, type: "summary" }]);
+				removable.push(...cluster.map((vector) => vector.id));
+				summaries++;
+			} catch (error) {
+				getLogger(env).error("summary_failed", { userId, error });
+			}
+		}
+	}
+
+	if (removable.length > 0) {
+		await deleteUserMemories(env, userId, removable);
+	}
+	return { removed: removable.length, summaries };
+}
+
+// Enforce every user's policy; one user's failure does not stop the others.
+export async function enforceRetentionPolicies(env: Env, llm: LlmClient): Promise<void> {
+	const prefix = retentionKey("");
+	let cursor: string | null = null;
+	do {
+		const page: KVNamespaceListResult<unknown> = await env.messageId.list({ prefix, cursor });
+		for (const key of page.keys) {
+			const userId = key.name.slice(prefix.length);
+			try {
+				const policy = await getRetentionPolicy(env, userId);
+				if (policy) {
+					const result = await applyRetentionPolicy(env, userId, policy, llm);
+					getLogger(env).info("retention_applied", { userId, ...result });
+				}
+			} catch (error) {
+				getLogger(env).error("retention_failed", { userId, error });
+			}
+		}
+		cursor = page.list_complete ? null : page.cursor;
+	} while (cursor);
+}
@@ -0,0 +1,110 @@
+import type { Env } from "./env";
+import { ApiError, errorResponse } from "./http";
+import { getLogger } from "./log";
+
+export interface RequestContext {
+	request: Request;
+	env: Env;
+	ctx: ExecutionContext;
+	url: URL;
+	// Decoded values of the route's ":name" path segments
+	params: Record<string, string>;
+}
+
+export type Handler<C extends RequestContext = RequestContext> = (c: C) => Promise<Response> | Response;
+
+type Method = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+interface Route {
+	method: Method;
+	pattern: RegExp;
+	paramNames: string[];
+	handler: Handler;
+}
+
+// Turn "/api/memory/:id/revisions" into a regex with one capture group per parameter.
+function compilePath(path: string): { pattern: RegExp; paramNames: string[] } {
+	const paramNames: string[] = [];
+	const source = path
+		.split("/")
+		.map((segment) => {
+			if (segment.startsWith(":")) {
+				paramNames.push(segment.slice(1));
+				return "([^/]+)";
+			}
+			return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("/");
+	return { pattern: new RegExp(`^${source}$`), paramNames };
+}
+
+// Literal paths such as /api/memory/search take precedence over parameterised siblings like
+// /api/memory/:id, whatever the method; otherwise routes are matched in registration order.
+export class Router {
+	private readonly routes: Route[] = [];
+
+	on(method: Method, path: string, handler: Handler): this {
+		this.routes.push({ method, ...compilePath(path), handler });
+		return this;
+	}
+
+	get(path: string, handler: Handler): this {
+		return this.on("GET", path, handler);
+	}
+
+	post(path: string, handler: Handler): this {
+		return this.on("POST", path, handler);
+	}
+
+	patch(path: string, handler: Handler): this {
+		return this.on("PATCH", path, handler);
+	}
+
+	put(path: string, handler: Handler): this {
+		return this.on("PUT", path, handler);
+	}
+
+	delete(path: string, handler: Handler): this {
+		return this.on("DELETE", path, handler);
+	}
+
+	async handle(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+		const url = new URL(request.url);
+		try {
+			const matching = this.routes.filter((route) => route.pattern.test(url.pathname));
+			// A literal path owns its URL: other methods on it are 405s, not a parameterised sibling's
+			const literal = matching.filter((route) => route.paramNames.length === 0);
+			const candidates = literal.length > 0 ? literal : matching;
+			const route = candidates.find((candidate) => candidate.method === request.method);
+			if (route) {
+				const match = route.pattern.exec(url.pathname)!;
+				const params: Record<string, string> = {};
+				route.paramNames.forEach((name, i) => {
+					params[name] = decodePathSegment(match[i + 1]);
+				});
+				return await route.handler({ request, env, ctx, url, params });
+			}
+
+			if (candidates.length > 0) {
+				throw new ApiError(405, "method_not_allowed", `Method ${request.method} not allowed`, {
+					headers: { Allow: [...new Set(candidates.map((candidate) => candidate.method))].join(", ") },
+				});
+			}
+			throw new ApiError(404, "not_found", "Not found");
+		} catch (error) {
+			// ApiErrors are the client's; anything else is logged before it becomes an error envelope
+			if (!(error instanceof ApiError)) {
+				getLogger(env).error("request_failed", { method: request.method, path: url.pathname, error });
+			}
+			return errorResponse(error);
+		}
+	}
+}
+
+function decodePathSegment(segment: string): string {
+	try {
+		return decodeURIComponent(segment);
+	} catch {
+		throw new ApiError(400, "validation_failed", "Malformed path parameter", { fields: [{ field: "path", message: "is not valid percent-encoding" }] });
+	}
+}
@@ -0,0 +1,53 @@
+import type { Env } from "./env";
+import { createLlmClient } from "./llm";
+import { getLogger } from "./log";
+import { runEmbeddingMigrationBatch, runKeywordBackfillBatch } from "./memory";
+import { enforceRetentionPolicies } from "./retention";
+
+// Must match the daily entry in "triggers" in wrangler.jsonc; every other cron re-embeds and
+// backfills the keyword index
+export const RETENTION_CRON = "0 3 * * *";
+
+// Re-embedding batches per cron run, to stay well inside one invocation's subrequest limit
+const EMBEDDING_MIGRATION_BATCHES_PER_RUN = 10;
+const KEYWORD_BACKFILL_BATCHES_PER_RUN = 5;
+
+async function migrateEmbeddings(env: Env): Promise<void> {
+	for (let i = 0; i < EMBEDDING_MIGRATION_BATCHES_PER_RUN; i++) {
+		const migration = await runEmbeddingMigrationBatch(env);
+		if (!migration || migration.status !== "running") {
+			return;
+		}
+	}
+}
+
+async function backfillKeywordIndex(env: Env): Promise<void> {
+	for (let i = 0; i < KEYWORD_BACKFILL_BATCHES_PER_RUN; i++) {
+		const backfill = await runKeywordBackfillBatch(env);
+		if (backfill.status !== "running") {
+			return;
+		}
+	}
+}
+
+// Cron entry point (see "triggers" in wrangler.jsonc).
+export async function handleScheduled(env: Env, cron: string): Promise<void> {
+	if (cron === RETENTION_CRON) {
+		try {
+			await enforceRetentionPolicies(env, createLlmClient(env));
+		} catch (error) {
+			getLogger(env).error("retention_failed", { error });
+		}
+		return;
+	}
+	try {
+		await migrateEmbeddings(env);
+	} catch (error) {
+		getLogger(env).error("embedding_migration_failed", { error });
+	}
+	try {
+		await backfillKeywordIndex(env);
+	} catch (error) {
+		getLogger(env).error("keyword_backfill_failed", { error });
+	}
+}
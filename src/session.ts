@@ -0,0 +1,280 @@
+import { DurableObject } from "cloudflare:workers";
+import { enforceRateLimit, reauthenticate, WEBSOCKET_PROTOCOL, type Principal } from "./auth";
+import { chatRequestSchema, chatResult, prepareChat, recordExchange, streamReply, userTurn, type ChatRequest } from "./chat";
+import type { Env } from "./env";
+import { getConversationTurns, MAX_STORED_TURNS, type ConversationTurn } from "./history";
+import { ApiError, errorBody, guardStorage, toApiError } from "./http";
+import { getLogger, Logger, parseLogLevel } from "./log";
+import type { ToolInvocation } from "./tools";
+import { recordUsage } from "./usage";
+import { boolean, object, oneOf, optional, validate } from "./validation";
+
+// Carries the authenticated caller from the worker to the session. The session has no route of
+// its own, so only requests forwarded by forwardToSession can set it.
+const SESSION_HEADER = "X-Chat-Session";
+
+// What each connected socket knows about its client; survives hibernation as the socket's attachment
+interface SessionMember {
+	principal: Principal;
+	conversationId: string;
+}
+
+export type SessionStatus = "idle" | "thinking" | "responding";
+
+// Events sent to clients. Token, status and done events go to every tab of the conversation.
+export type SessionEvent =
+	| { type: "history"; messages: ConversationTurn[]; status: SessionStatus }
+	| { type: "status"; status: SessionStatus | "queued" }
+	| { type: "typing"; typing: boolean }
+	| { type: "user_message"; turn: ConversationTurn }
+	| ({ type: "tool" } & ToolInvocation)
+	| { type: "token"; token: string }
+	| ({ type: "done" } & ReturnType<typeof chatResult>)
+	| ({ type: "error" } & ReturnType<typeof errorBody>);
+
+// How long a message posted over HTTP may hold the queue, should its worker never end its turn
+const HTTP_TURN_TIMEOUT_MS = 5 * 60_000;
+
+// Client events: {type: "message", ...} takes the fields of a POST /api/chat body
+const clientEventSchema = object({
+	type: oneOf(["message", "typing"] as const),
+	typing: optional(boolean()),
+});
+
+// The live side of one conversation. Every tab of the conversation joins it over a WebSocket;
+// messages are answered one at a time in arrival order, and the answer streams to all tabs.
+// Messages posted to /api/chat take their turn in the same queue (see beginSessionTurn). The
+// transcript is kept in the object's storage and mirrored to KV for GET /api/history.
+export class ChatSession extends DurableObject<Env> {
+	// The worker's bindings, guarded the same way (see guardStorage)
+	private bindings: Env;
+	private queue: Promise<void> = Promise.resolve();
+	private pending = 0;
+	private status: SessionStatus = "idle";
+	// Ends the turn of each message posted over HTTP that holds or awaits the queue
+	private readonly httpTurns = new Map<string, () => void>();
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		this.bindings = guardStorage(env);
+	}
+
+	// Answer with other bindings than the worker's, such as the offline ones of a test
+	useBindings(env: Env): void {
+		this.bindings = guardStorage(env);
+	}
+
+	async fetch(request: Request): Promise<Response> {
+		const member = JSON.parse(request.headers.get(SESSION_HEADER) || "null") as SessionMember | null;
+		if (!member) {
+			return new Response("Not found", { status: 404 });
+		}
+
+		const { 0: client, 1: server } = new WebSocketPair();
+		this.ctx.acceptWebSocket(server);
+		server.serializeAttachment(member);
+		this.send(server, { type: "history", messages: await this.getTranscript(member), status: this.status });
+
+		// Browsers drop the connection unless one of their offered subprotocols is echoed back
+		const offered = (request.headers.get("Sec-WebSocket-Protocol") || "").split(",").map((protocol) => protocol.trim());
+		const headers: HeadersInit = offered.includes(WEBSOCKET_PROTOCOL) ? { "Sec-WebSocket-Protocol": WEBSOCKET_PROTOCOL } : {};
+		return new Response(null, { status: 101, webSocket: client, headers });
+	}
+
+	async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+		let member = ws.deserializeAttachment() as SessionMember;
+		let body: ChatRequest;
+		try {
+			// The socket outlives the request that authenticated it, so each message checks the key again
+			member = { ...member, principal: await reauthenticate(this.bindings, member.principal) };
+			let data: unknown;
+			try {
+				data = JSON.parse(typeof message === "string" ? message : new TextDecoder().decode(message));
+			} catch {
+				throw new ApiError(400, "invalid_json", "Messages must be valid JSON");
+			}
+			const event = validate(clientEventSchema, data);
+			if (event.type === "typing") {
+				this.broadcast({ type: "typing", typing: event.typing ?? true }, ws);
+				return;
+			}
+			body = validate(chatRequestSchema, data);
+			await enforceRateLimit(this.bindings, member.principal);
+			await recordUsage(this.bindings, member.principal.userId, { requests: 1 });
+		} catch (error) {
+			const apiError = toApiError(error);
+			this.send(ws, { type: "error", ...errorBody(apiError) });
+			if (apiError.code === "unauthorized") {
+				ws.close(1008, apiError.message);
+			}
+			return;
+		}
+
+		// Wait for the messages ahead of this one; the handler stays open until its answer is sent
+		if (this.pending > 0) {
+			this.send(ws, { type: "status", status: "queued" });
+		}
+		await this.enqueue(() => this.answer(ws, member, body));
+	}
+
+	// A message posted over HTTP waits for its turn like one sent here, but is answered by the
+	// worker that received it. Once its turn comes the worker gets the transcript, its events are
+	// relayed to every tab, and the queue moves on when it ends the turn.
+	async beginHttpTurn(member: SessionMember): Promise<{ turnId: string; transcript: ConversationTurn[] }> {
+		const turnId = crypto.randomUUID();
+		let started!: () => void;
+		const turnStarted = new Promise<void>((resolve) => (started = resolve));
+		void this.enqueue(async () => {
+			const ended = new Promise<void>((resolve) => this.httpTurns.set(turnId, resolve));
+			started();
+			const timeout = setTimeout(() => this.httpTurns.get(turnId)?.(), HTTP_TURN_TIMEOUT_MS);
+			await ended;
+			clearTimeout(timeout);
+			this.httpTurns.delete(turnId);
+		});
+		await turnStarted;
+		this.setStatus("thinking");
+		return { turnId, transcript: await this.getTranscript(member) };
+	}
+
+	relayHttpTurn(event: SessionEvent): void {
+		if (event.type === "token" && this.status !== "responding") {
+			this.setStatus("responding");
+		}
+		this.broadcast(event);
+	}
+
+	// Add the turn's exchange, already mirrored to KV, to the transcript and answer the next message
+	async endHttpTurn(turnId: string, member: SessionMember, turns: ConversationTurn[]): Promise<void> {
+		try {
+			if (turns.length > 0) {
+				const transcript = await this.getTranscript(member);
+				await this.ctx.storage.put("transcript", transcript.concat(turns).slice(-MAX_STORED_TURNS));
+			}
+		} finally {
+			this.httpTurns.get(turnId)?.();
+		}
+	}
+
+	// Run the work once the messages ahead of it are answered
+	private enqueue(work: () => Promise<void>): Promise<void> {
+		this.pending++;
+		const done = this.queue.then(work).finally(() => {
+			this.pending--;
+			if (this.pending === 0) {
+				this.setStatus("idle");
+			}
+		});
+		this.queue = done.catch(() => undefined);
+		return done;
+	}
+
+	private async answer(sender: WebSocket, member: SessionMember, body: ChatRequest): Promise<void> {
+		const scope = { userId: member.principal.userId, conversationId: member.conversationId };
+		// Each message is logged like a request of its own
+		const log = new Logger({ requestId: crypto.randomUUID(), ...scope }, parseLogLevel(this.env.LOG_LEVEL));
+		const env = { ...this.bindings, log };
+		const started = Date.now();
+		try {
+			this.setStatus("thinking");
+			const transcript = await this.getTranscript(member);
+			const chat = await prepareChat(env, member.principal, scope, body, transcript);
+			this.broadcast({ type: "user_message", turn: userTurn(chat) }, sender);
+			for (const invocation of chat.agent?.toolLog ?? []) {
+				this.broadcast({ type: "tool", ...invocation });
+			}
+
+			this.setStatus("responding");
+			let reply = "";
+			for await (const token of streamReply(chat)) {
+				reply += token;
+				this.broadcast({ type: "token", token });
+			}
+			this.broadcast({ type: "done", ...chatResult(chat, reply) });
+
+			if (reply) {
+				const turns = await recordExchange(env, member.principal, chat, reply);
+				await this.ctx.storage.put("transcript", transcript.concat(turns).slice(-MAX_STORED_TURNS));
+			}
+			log.info("session_message", { durationMs: Date.now() - started, ok: true });
+		} catch (error) {
+			const apiError = toApiError(error);
+			log.info("session_message", { durationMs: Date.now() - started, ok: false, code: apiError.code });
+			if (!(error instanceof ApiError)) {
+				log.error("session_message_failed", { error });
+			}
+			this.send(sender, { type: "error", ...errorBody(apiError) });
+		}
+	}
+
+	// The session's transcript, seeded from KV the first time the conversation is opened
+	private async getTranscript(member: SessionMember): Promise<ConversationTurn[]> {
+		let transcript = await this.ctx.storage.get<ConversationTurn[]>("transcript");
+		if (!transcript) {
+			transcript = await getConversationTurns(this.bindings, member.principal.userId, member.conversationId);
+			await this.ctx.storage.put("transcript", transcript);
+		}
+		return transcript;
+	}
+
+	private setStatus(status: SessionStatus): void {
+		this.status = status;
+		this.broadcast({ type: "status", status });
+	}
+
+	private send(ws: WebSocket, event: SessionEvent): void {
+		try {
+			ws.send(JSON.stringify(event));
+		} catch {
+			// The tab went away; it gets the history again when it reconnects
+		}
+	}
+
+	private broadcast(event: SessionEvent, except?: WebSocket): void {
+		for (const ws of this.ctx.getWebSockets()) {
+			if (ws !== except) {
+				this.send(ws, event);
+			}
+		}
+	}
+}
+
+// Sessions are keyed by user and conversation, so users with the same conversation ID never share one
+function getSession(env: Env, principal: Principal, conversationId: string): DurableObjectStub<ChatSession> {
+	return env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(`${principal.userId}:${conversationId}`));
+}
+
+// Hand a WebSocket upgrade to the conversation's session.
+export async function forwardToSession(env: Env, request: Request, principal: Principal, conversationId: string): Promise<Response> {
+	const stub = getSession(env, principal, conversationId);
+	const headers = new Headers(request.headers);
+	headers.delete("Authorization");
+	headers.set(SESSION_HEADER, JSON.stringify({ principal, conversationId } satisfies SessionMember));
+	return stub.fetch(new Request(request.url, { headers }));
+}
+
+// A message posted to a conversation over HTTP, holding its place in the session's queue
+export interface SessionTurn {
+	// The conversation's turns before this message
+	transcript: ConversationTurn[];
+	// Show an event of the answer to the tabs connected to the session
+	publish(event: SessionEvent): void;
+	// Release the queue, adding the recorded exchange, if any, to the session's transcript
+	end(turns: ConversationTurn[]): Promise<void>;
+}
+
+// Wait for the message's turn in the conversation's session. The session is secondary to the
+// answer: failing to relay events or to end the turn is logged, and a turn left open times out.
+export async function beginSessionTurn(env: Env, principal: Principal, conversationId: string): Promise<SessionTurn> {
+	const stub = getSession(env, principal, conversationId);
+	const member: SessionMember = { principal, conversationId };
+	const { turnId, transcript } = await stub.beginHttpTurn(member);
+	const logFailure = (error: unknown) => getLogger(env).error("session_turn_failed", { conversationId, error });
+	return {
+		transcript,
+		publish: (event) => {
+			stub.relayHttpTurn(event).catch(logFailure);
+		},
+		end: (turns) => stub.endHttpTurn(turnId, member, turns).catch(logFailure),
+	};
+}
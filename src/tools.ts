@@ -0,0 +1,140 @@
+import type { Env } from "./env";
+import { ApiError } from "./http";
+import type { LlmClient, OpenRouterMessage, ToolCall, ToolDefinition } from "./llm";
+import { deleteUserMemories, getUserMemory, searchMemories, storeUserMemory, ULID_PATTERN, type MemoryScope } from "./memory";
+import { number, object, optional, string, validate } from "./validation";
+
+// The most model turns in one chat; after that the model must answer without tools
+export const MAX_AGENT_STEPS = 5;
+const MAX_SEARCH_RESULTS = 10;
+
+export const TOOL_INSTRUCTION = "You can search, save and forget the user's long-term memories with the tools provided. Save durable facts the user shares, and forget memories the user asks you to forget.";
+
+// One tool call made during a chat, as reported in the response.
+export interface ToolInvocation {
+	name: string;
+	arguments: unknown;
+	result?: unknown;
+	error?: string;
+}
+
+export const MEMORY_TOOLS: ToolDefinition[] = [
+	{
+		name: "search_memory",
+		description: "Search long-term memory for things the user said or asked to remember. Returns the best matches with their IDs.",
+		parameters: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "What to look for" },
+				limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS, description: "How many memories to return" }
+			},
+			required: ["query"]
+		}
+	},
+	{
+		name: "save_memory",
+		description: "Save a durable fact about the user to long-term memory, written as a standalone sentence, e.g. \"User is allergic to peanuts.\"",
+		parameters: {
+			type: "object",
+			properties: {
+				text: { type: "string", description: "The fact to remember" }
+			},
+			required: ["text"]
+		}
+	},
+	{
+		name: "forget_memory",
+		description: "Delete a memory by the ID search_memory returned, when the user asks to forget it or it is no longer true.",
+		parameters: {
+			type: "object",
+			properties: {
+				id: { type: "string", description: "The memory ID" }
+			},
+			required: ["id"]
+		}
+	}
+];
+
+const searchArgsSchema = object({
+	query: string({ trim: true, minLength: 1 }),
+	limit: optional(number({ integer: true, min: 1, max: MAX_SEARCH_RESULTS })),
+});
+const saveArgsSchema = object({
+	text: string({ trim: true, minLength: 1 }),
+});
+const forgetArgsSchema = object({
+	id: string({ pattern: ULID_PATTERN, patternMessage: "must be a memory ID" }),
+});
+
+function parseArguments(call: ToolCall): unknown {
+	try {
+		return JSON.parse(call.function.arguments || "{}");
+	} catch {
+		throw new Error("arguments must be valid JSON");
+	}
+}
+
+// Tool errors go back to the model as the call's result, so it can correct itself.
+function describeToolError(error: unknown): string {
+	if (error instanceof ApiError && error.options.fields) {
+		return error.options.fields.map((field) => `${field.field} ${field.message}`).join("; ");
+	}
+	return error instanceof Error ? error.message : "tool failed";
+}
+
+// Run one memory tool call within the scope of the chat's memory.
+export async function runMemoryTool(env: Env, llm: LlmClient, scope: MemoryScope, name: string, args: unknown): Promise<unknown> {
+	switch (name) {
+		case "search_memory": {
+			const { query, limit } = validate(searchArgsSchema, args);
+			const memories = await searchMemories(env, scope, query, { topK: limit ?? 5 });
+			return memories.map((memory) => ({ id: memory.id, type: memory.type, text: memory.text, timestamp: memory.timestamp ?? null, score: memory.score }));
+		}
+		case "save_memory": {
+			const { text } = validate(saveArgsSchema, args);
+			const [stored] = await storeUserMemory(env, scope, [{ text, type: "fact" }], llm);
+			return stored;
+		}
+		case "forget_memory": {
+			const { id } = validate(forgetArgsSchema, args);
+			if (!(await getUserMemory(env, scope, id))) {
+				throw new Error(`no memory with ID ${id}`);
+			}
+			await deleteUserMemories(env, scope.userId, [id]);
+			return { forgotten: id };
+		}
+		default:
+			throw new Error(`unknown tool ${name}`);
+	}
+}
+
+// Let the model call the memory tools until it answers, for at most maxSteps turns. Tool calls
+// and their results are appended to `messages`; the last turn is made without tools so that it
+// has to answer.
+export async function runAgentLoop(env: Env, llm: LlmClient, scope: MemoryScope, messages: OpenRouterMessage[], maxSteps: number = MAX_AGENT_STEPS): Promise<{ reply: string; toolLog: ToolInvocation[] }> {
+	const toolLog: ToolInvocation[] = [];
+	for (let step = 1; step < maxSteps; step++) {
+		const turn = await llm.completeWithTools(messages, MEMORY_TOOLS);
+		if (turn.toolCalls.length === 0) {
+			return { reply: turn.content || "No response generated", toolLog };
+		}
+
+		messages.push({ role: "assistant", content: turn.content, tool_calls: turn.toolCalls });
+		for (const call of turn.toolCalls) {
+			const invocation: ToolInvocation = { name: call.function.name, arguments: call.function.arguments };
+			try {
+				invocation.arguments = parseArguments(call);
+				invocation.result = await runMemoryTool(env, llm, scope, call.function.name, invocation.arguments);
+			} catch (error) {
+				invocation.error = describeToolError(error);
+			}
+			toolLog.push(invocation);
+			messages.push({
+				role: "tool",
+				tool_call_id: call.id,
+				content: JSON.stringify(invocation.error !== undefined ? { error: invocation.error } : invocation.result)
+			});
+		}
+	}
+	return { reply: await llm.complete(messages), toolLog };
+}
@@ -0,0 +1,953 @@
+// The static prototype UI backed by /api/chat, /api/history and /api/memory
+const CHAT_PAGE_HTML = `<!doctype html>
+		<html lang="en">
+		<head>
+		  <meta charset="utf-8" />
+		  <meta name="viewport" content="width=device-width, initial-scale=1" />
+		  <title>Chatbot Prototype</title>
+		  <style nonce="{{nonce}}">
+			:root {
+			  --bg: #0b1020;
+			  --card: rgba(255, 255, 255, 0.06);
+			  --card-border: rgba(255, 255, 255, 0.12);
+			  --text: #e6e9ef;
+			  --muted: #9aa3b2;
+			  --accent: #7c9cf6;
+			  --accent-2: #6ee7f9;
+			  --danger: #ff6b6b;
+			}
+
+			* { box-sizing: border-box; }
+			html, body { height: 100%; }
+			body {
+			  margin: 0;
+			  color: var(--text);
+			  background: radial-gradient(1200px 800px at 10% -10%, rgba(124, 156, 246, 0.25), transparent 60%),
+						  radial-gradient(900px 700px at 110% 20%, rgba(110, 231, 249, 0.18), transparent 60%),
+						  var(--bg);
+			  font: 14px/1.5 ui-sans-serif, system-ui, -apple-system, Segoe UI, Roboto, Ubuntu, Cantarell, Noto Sans, Helvetica Neue, Arial, "Apple Color Emoji", "Segoe UI Emoji";
+			}
+
+			.container {
+			  max-width: 1100px;
+			  margin: 0 auto;
+			  padding: 16px;
+			  display: flex;
+			  flex-direction: column;
+			  min-height: 100dvh;
+			}
+
+			.header {
+			  display: flex;
+			  align-items: center;
+			  justify-content: space-between;
+			  gap: 12px;
+			  padding: 8px 0 16px 0;
+			}
+
+			.brand {
+			  display: flex;
+			  align-items: center;
+			  gap: 10px;
+			}
+			.logo {
+			  width: 36px; height: 36px; border-radius: 10px;
+			  background: linear-gradient(135deg, var(--accent), var(--accent-2));
+			  box-shadow: 0 8px 30px rgba(124, 156, 246, 0.35);
+			}
+			.title { font-weight: 700; letter-spacing: 0.2px; }
+			.subtitle { color: var(--muted); font-size: 12px; }
+
+			.card {
+			  background: var(--card);
+			  border: 1px solid var(--card-border);
+			  border-radius: 14px;
+			  backdrop-filter: blur(8px);
+			  -webkit-backdrop-filter: blur(8px);
+			  box-shadow: 0 10px 30px rgba(0,0,0,0.25);
+			}
+
+			.chat {
+			  display: flex;
+			  flex-direction: column;
+			  min-height: 0; /* allow flex container to size correctly */
+			  flex: 1;
+			  padding: 14px;
+			}
+
+			.messages {
+			  display: flex;
+			  flex-direction: column;
+			  gap: 12px;
+			  height: 58dvh;
+			  overflow: auto;
+			  padding-right: 6px;
+			}
+			.message {
+			  display: grid;
+			  grid-template-columns: 36px 1fr;
+			  gap: 10px;
+			  align-items: start;
+			}
+			.avatar {
+			  width: 36px; height: 36px; border-radius: 50%;
+			  background: linear-gradient(135deg, rgba(255,255,255,0.15), rgba(255,255,255,0.03));
+			  border: 1px solid var(--card-border);
+			}
+			.bubble {
+			  padding: 10px 12px;
+			  border-radius: 12px;
+			  background: rgba(255,255,255,0.05);
+			  border: 1px solid var(--card-border);
+			}
+			.me .bubble { background: rgba(124, 156, 246, 0.12); border-color: rgba(124, 156, 246, 0.35); }
+			.meta { color: var(--muted); font-size: 12px; margin-bottom: 4px; }
+			.plain, .markdown.streaming { white-space: pre-wrap; }
+			.markdown > :first-child { margin-top: 0; }
+			.markdown > :last-child { margin-bottom: 0; }
+			.markdown p, .markdown ul, .markdown ol, .markdown pre, .markdown blockquote { margin: 0 0 8px 0; }
+			.markdown ul, .markdown ol { padding-left: 20px; }
+			.markdown h3, .markdown h4, .markdown h5, .markdown h6 { margin: 10px 0 6px 0; font-size: 15px; }
+			.markdown a { color: var(--accent-2); }
+			.markdown code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 13px; background: rgba(0, 0, 0, 0.3); padding: 1px 4px; border-radius: 4px; }
+			.markdown pre { background: rgba(0, 0, 0, 0.35); padding: 10px; border-radius: 8px; overflow-x: auto; }
+			.markdown pre code { background: none; padding: 0; }
+			.markdown blockquote { border-left: 3px solid var(--card-border); padding-left: 10px; color: var(--muted); }
+
+			.input-row {
+			  display: grid;
+			  grid-template-columns: 1fr auto auto;
+			  gap: 10px;
+			  margin-top: 12px;
+			}
+			.input {
+			  width: 100%;
+			  padding: 12px 14px;
+			  border-radius: 12px;
+			  color: var(--text);
+			  background: rgba(255, 255, 255, 0.06);
+			  border: 1px solid var(--card-border);
+			  outline: none;
+			}
+			.input::placeholder { color: #a6b0c2; }
+			.button {
+			  padding: 10px 14px;
+			  border-radius: 12px;
+			  border: 1px solid var(--card-border);
+			  background: linear-gradient(135deg, rgba(124, 156, 246, 0.2), rgba(110, 231, 249, 0.16));
+			  color: var(--text);
+			  cursor: pointer;
+			}
+			.attachments { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 6px; }
+			.attachments:empty { display: none; }
+			.attachment { max-width: 160px; max-height: 160px; border-radius: 8px; border: 1px solid var(--card-border); }
+			#pendingImages .attachment { max-width: 64px; max-height: 64px; cursor: pointer; }
+			.sources { margin-top: 6px; font-size: 12px; opacity: 0.75; }
+			.button[data-busy="true"] { background: linear-gradient(135deg, rgba(124, 156, 246, 0.1), rgba(110, 231, 249, 0.08)); opacity: 0.7; }
+
+			.toolbar {
+			  position: sticky;
+			  bottom: 0;
+			  display: grid;
+			  grid-template-columns: 1fr 1fr;
+			  gap: 10px;
+			  padding: 12px 14px;
+			  margin-top: 14px;
+			}
+			.tool {
+			  padding: 10px 12px;
+			  border-radius: 10px;
+			  border: 1px solid var(--card-border);
+			  background: rgba(255, 255, 255, 0.06);
+			  color: var(--text);
+			  text-align: center;
+			  cursor: pointer;
+			}
+			.tool.danger { background: rgba(255, 107, 107, 0.14); border-color: rgba(255, 107, 107, 0.35); }
+
+			/* Modal styles */
+			.modal {
+			  display: none;
+			  position: fixed;
+			  z-index: 1000;
+			  left: 0;
+			  top: 0;
+			  width: 100%;
+			  height: 100%;
+			  background-color: rgba(0, 0, 0, 0.5);
+			  backdrop-filter: blur(4px);
+			}
+			.modal-content {
+			  background: var(--card);
+			  border: 1px solid var(--card-border);
+			  border-radius: 14px;
+			  margin: 5% auto;
+			  padding: 20px;
+			  width: 90%;
+			  max-width: 800px;
+			  max-height: 80vh;
+			  overflow-y: auto;
+			  box-shadow: 0 20px 40px rgba(0,0,0,0.3);
+			}
+			.modal-header {
+			  display: flex;
+			  justify-content: space-between;
+			  align-items: center;
+			  margin-bottom: 20px;
+			  padding-bottom: 10px;
+			  border-bottom: 1px solid var(--card-border);
+			}
+			.modal-title {
+			  font-size: 18px;
+			  font-weight: 600;
+			  color: var(--text);
+			}
+			.close {
+			  color: var(--muted);
+			  font-size: 28px;
+			  font-weight: bold;
+			  cursor: pointer;
+			  line-height: 1;
+			}
+			.close:hover { color: var(--text); }
+			.memory-table {
+			  width: 100%;
+			  border-collapse: collapse;
+			  margin-top: 10px;
+			}
+			.memory-table th,
+			.memory-table td {
+			  padding: 12px;
+			  text-align: left;
+			  border-bottom: 1px solid var(--card-border);
+			}
+			.memory-table th {
+			  background: rgba(255, 255, 255, 0.05);
+			  font-weight: 600;
+			  color: var(--text);
+			}
+			.memory-table td {
+			  color: var(--muted);
+			  font-size: 14px;
+			}
+			.memory-table tr:hover {
+			  background: rgba(255, 255, 255, 0.02);
+			}
+			.vector-preview {
+			  font-family: monospace;
+			  font-size: 12px;
+			  color: var(--accent);
+			}
+			.message-cell {
+			  max-width: 300px;
+			  word-wrap: break-word;
+			}
+			.row-actions { white-space: nowrap; }
+			.row-action {
+			  padding: 4px 8px;
+			  margin-right: 4px;
+			  border-radius: 8px;
+			  border: 1px solid var(--card-border);
+			  background: rgba(255, 255, 255, 0.06);
+			  color: var(--text);
+			  cursor: pointer;
+			}
+			.row-action.danger { background: rgba(255, 107, 107, 0.14); border-color: rgba(255, 107, 107, 0.35); }
+			#loadMoreMemories { margin-top: 12px; width: 100%; }
+
+			.footer { color: var(--muted); font-size: 12px; text-align: center; padding: 10px 0 20px 0; }
+
+			/* Responsive tweaks */
+			@media (max-width: 680px) {
+			  .messages { height: 58dvh; }
+			  .header { flex-direction: column; align-items: flex-start; gap: 6px; }
+			}
+		  </style>
+		</head>
+		<body>
+		  <div class="container">
+			<header class="header">
+			  <div class="brand">
+				<div class="logo"></div>
+				<div>
+				  <div class="title">Chatbot Prototype</div>
+				  <div class="subtitle">Modern, responsive UI — APIs to be wired later</div>
+				  <div class="subtitle" id="sessionStatus"></div>
+				</div>
+			  </div>
+			</header>
+
+			<section class="card chat">
+			  <div class="messages" id="messages"></div>
+
+			  <div class="input-row">
+				<input class="input" id="input" placeholder="Type a message..." />
+				<button class="button" id="attach" title="Attach images">Attach</button>
+				<button class="button" id="send">Send</button>
+			  </div>
+			  <input type="file" id="imageInput" accept="image/png,image/jpeg,image/gif,image/webp" multiple hidden />
+			  <div class="attachments" id="pendingImages" title="Click an image to remove it"></div>
+			  <input type="file" id="documentInput" accept=".txt,.md,.markdown,.html,.htm,.pdf,text/plain,text/markdown,text/html,application/pdf" hidden />
+
+			  <div class="toolbar">
+				<button class="tool" id="getMemory" title="GET /api/memory">Get Memory</button>
+				<button class="tool" id="uploadDocument" title="POST /api/documents">Upload Document</button>
+				<button class="tool" id="exportMemory" title="GET /api/memory/export">Export Memory</button>
+				<button class="tool danger" id="removeMemory" title="DELETE /api/memory">Remove All Memory</button>
+			  </div>
+			</section>
+
+			<footer class="footer">Chatbot with Memory — Powered by OpenRouter, Workers AI & Cloudflare Vectorize</footer>
+		  </div>
+
+		  <!-- Memory Modal -->
+		  <div id="memoryModal" class="modal">
+			<div class="modal-content">
+			  <div class="modal-header">
+				<h2 class="modal-title">Memory Database</h2>
+				<span class="close">&times;</span>
+			  </div>
+			  <div id="memoryContent">
+				<p>Loading memories...</p>
+			  </div>
+			</div>
+		  </div>
+		  <script nonce="{{nonce}}">
+			const messages = document.getElementById('messages');
+			const input = document.getElementById('input');
+			const sendBtn = document.getElementById('send');
+			if (messages) { messages.scrollTop = messages.scrollHeight; }
+
+			// Memories belong to the user of the API key; each browser tab gets its own conversation.
+			function getOrCreateId(storage, key) {
+			  let id = storage.getItem(key);
+			  if (!id) {
+				id = crypto.randomUUID();
+				storage.setItem(key, id);
+			  }
+			  return id;
+			}
+			const conversationId = getOrCreateId(sessionStorage, 'chatbot-conversation-id');
+
+			// Call the API with the API key kept in localStorage, asking for it when missing.
+			// A rejected key is forgotten so the next call asks again.
+			async function apiFetch(url, options) {
+			  let apiKey = localStorage.getItem('chatbot-api-key');
+			  if (!apiKey) {
+				apiKey = (prompt('Enter your API key') || '').trim();
+				if (apiKey) localStorage.setItem('chatbot-api-key', apiKey);
+			  }
+			  const init = options || {};
+			  const headers = Object.assign({}, init.headers, { 'Authorization': 'Bearer ' + apiKey });
+			  const res = await fetch(url, Object.assign({}, init, { headers }));
+			  if (res.status === 401) localStorage.removeItem('chatbot-api-key');
+			  return res;
+			}
+
+			function createElement(tag, className, text) {
+			  const element = document.createElement(tag);
+			  if (className) element.className = className;
+			  if (text !== undefined) element.textContent = text;
+			  return element;
+			}
+
+			// Markdown is rendered straight to DOM nodes: text only ever goes through textContent and
+			// links are limited to http(s) and mailto, so model output cannot inject markup or script.
+			const FENCE = /^\\s*\\x60{3}\\s*([\\w+-]*)\\s*$/;
+			const HEADING = /^(#{1,6})\\s+(.*)$/;
+			const LIST_ITEM = /^\\s*([-*+]|\\d+[.)])\\s+(.*)$/;
+			const QUOTE = /^\\s*>\\s?/;
+			const INLINE = /\\x60([^\\x60]+)\\x60|\\[([^\\]]+)\\]\\(([^)\\s]+)\\)|\\*\\*(.+?)\\*\\*|\\*([^*\\s][^*]*)\\*/g;
+
+			function safeUrl(href) {
+			  try {
+				const url = new URL(href, location.href);
+				return ['http:', 'https:', 'mailto:'].includes(url.protocol) ? url.href : null;
+			  } catch (error) {
+				return null;
+			  }
+			}
+
+			function renderInline(parent, text) {
+			  let last = 0;
+			  for (const match of text.matchAll(INLINE)) {
+				if (match.index > last) parent.appendChild(document.createTextNode(text.slice(last, match.index)));
+				if (match[1] !== undefined) {
+				  parent.appendChild(createElement('code', '', match[1]));
+				} else if (match[2] !== undefined) {
+				  const href = safeUrl(match[3]);
+				  if (href) {
+					const link = createElement('a');
+					link.href = href;
+					link.target = '_blank';
+					link.rel = 'noopener noreferrer';
+					renderInline(link, match[2]);
+					parent.appendChild(link);
+				  } else {
+					parent.appendChild(document.createTextNode(match[0]));
+				  }
+				} else {
+				  const emphasis = createElement(match[4] !== undefined ? 'strong' : 'em');
+				  renderInline(emphasis, match[4] !== undefined ? match[4] : match[5]);
+				  parent.appendChild(emphasis);
+				}
+				last = match.index + match[0].length;
+			  }
+			  if (last < text.length) parent.appendChild(document.createTextNode(text.slice(last)));
+			}
+
+			function isBlockStart(line) {
+			  return FENCE.test(line) || HEADING.test(line) || LIST_ITEM.test(line) || QUOTE.test(line);
+			}
+
+			// Fenced code, headings, lists, block quotes and paragraphs with inline code, links and emphasis
+			function renderMarkdown(text) {
+			  const fragment = document.createDocumentFragment();
+			  const lines = (text || '').replace(/\\r\\n?/g, '\\n').split('\\n');
+			  let i = 0;
+			  while (i < lines.length) {
+				const line = lines[i];
+				const fence = line.match(FENCE);
+				if (fence) {
+				  const code = [];
+				  for (i++; i < lines.length && !/^\\s*\\x60{3}\\s*$/.test(lines[i]); i++) code.push(lines[i]);
+				  i++;
+				  const pre = createElement('pre');
+				  pre.appendChild(createElement('code', fence[1] ? 'language-' + fence[1] : '', code.join('\\n')));
+				  fragment.appendChild(pre);
+				} else if (!line.trim()) {
+				  i++;
+				} else if (HEADING.test(line)) {
+				  const heading = line.match(HEADING);
+				  const element = createElement('h' + Math.min(6, heading[1].length + 2));
+				  renderInline(element, heading[2]);
+				  fragment.appendChild(element);
+				  i++;
+				} else if (LIST_ITEM.test(line)) {
+				  const ordered = /^\\s*\\d/.test(line);
+				  const list = createElement(ordered ? 'ol' : 'ul');
+				  if (ordered && parseInt(line.trim()) !== 1) list.start = parseInt(line.trim());
+				  for (; i < lines.length && LIST_ITEM.test(lines[i]) && /^\\s*\\d/.test(lines[i]) === ordered; i++) {
+					const item = createElement('li');
+					renderInline(item, lines[i].match(LIST_ITEM)[2]);
+					list.appendChild(item);
+				  }
+				  fragment.appendChild(list);
+				} else if (QUOTE.test(line)) {
+				  const quoted = [];
+				  for (; i < lines.length && QUOTE.test(lines[i]); i++) quoted.push(lines[i].replace(QUOTE, ''));
+				  const quote = createElement('blockquote');
+				  quote.appendChild(renderMarkdown(quoted.join('\\n')));
+				  fragment.appendChild(quote);
+				} else {
+				  const paragraph = createElement('p');
+				  for (let first = true; i < lines.length && lines[i].trim() && (first || !isBlockStart(lines[i])); i++, first = false) {
+					if (!first) paragraph.appendChild(document.createElement('br'));
+					renderInline(paragraph, lines[i]);
+				  }
+				  fragment.appendChild(paragraph);
+				}
+			  }
+			  return fragment;
+			}
+
+			function appendMessage({ me, text, imageUrls }) {
+			  const wrap = document.createElement('div');
+			  wrap.className = 'message' + (me ? ' me' : '');
+			  const avatar = document.createElement('div');
+			  avatar.className = 'avatar';
+			  const bubble = document.createElement('div');
+			  bubble.className = 'bubble';
+			  const meta = document.createElement('div');
+			  meta.className = 'meta';
+			  meta.textContent = me ? 'You • just now' : 'Assistant • just now';
+			  // The user's own text is shown as typed; replies are rendered as Markdown
+			  const body = createElement('div', me ? 'plain' : 'markdown');
+			  if (me) body.textContent = text || '';
+			  else body.appendChild(renderMarkdown(text));
+			  bubble.appendChild(meta);
+			  bubble.appendChild(body);
+			  if (imageUrls && imageUrls.length) {
+				const gallery = document.createElement('div');
+				gallery.className = 'attachments';
+				imageUrls.forEach((url) => {
+				  const img = document.createElement('img');
+				  img.className = 'attachment';
+				  img.src = url;
+				  gallery.appendChild(img);
+				});
+				bubble.appendChild(gallery);
+			  }
+			  wrap.appendChild(avatar);
+			  wrap.appendChild(bubble);
+			  messages.appendChild(wrap);
+			  messages.scrollTop = messages.scrollHeight;
+			  return body; // return the content node for streaming updates
+			}
+
+			// Read the Server-Sent Events from /api/chat, calling onToken for each streamed token.
+			// Resolves with the payload of the final "done" or "error" event.
+			async function readChatStream(res, onToken) {
+			  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+			  let buffer = '';
+			  let result = { error: { message: 'Stream ended unexpectedly' } };
+			  while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
+				buffer += value;
+				let boundary;
+				while ((boundary = buffer.indexOf('\\n\\n')) !== -1) {
+				  const rawEvent = buffer.slice(0, boundary);
+				  buffer = buffer.slice(boundary + 2);
+				  let event = 'message';
+				  let data = '';
+				  rawEvent.split('\\n').forEach((line) => {
+					if (line.startsWith('event:')) event = line.slice(6).trim();
+					else if (line.startsWith('data:')) data += line.slice(5).trim();
+				  });
+				  if (!data) continue;
+				  const payload = JSON.parse(data);
+				  if (event === 'token') onToken(payload.token);
+				  else if (event === 'done' || event === 'error') result = payload;
+				}
+			  }
+			  return result;
+			}
+
+			// Images are uploaded as soon as they are picked and sent with the next message by ID
+			const attachBtn = document.getElementById('attach');
+			const imageInput = document.getElementById('imageInput');
+			const pendingImages = document.getElementById('pendingImages');
+			let attachments = [];
+
+			function renderPendingImages() {
+			  pendingImages.innerHTML = '';
+			  attachments.forEach((attachment) => {
+				const img = document.createElement('img');
+				img.className = 'attachment';
+				img.src = attachment.url;
+				img.addEventListener('click', () => {
+				  attachments = attachments.filter((other) => other !== attachment);
+				  renderPendingImages();
+				});
+				pendingImages.appendChild(img);
+			  });
+			}
+
+			attachBtn.addEventListener('click', () => imageInput.click());
+			imageInput.addEventListener('change', async () => {
+			  const files = Array.from(imageInput.files || []);
+			  imageInput.value = '';
+			  for (const file of files) {
+				try {
+				  const res = await apiFetch('/api/images', {
+					method: 'POST',
+					headers: { 'Content-Type': file.type, 'X-Conversation-Id': conversationId },
+					body: file
+				  });
+				  const result = await res.json();
+				  if (!res.ok) throw new Error((result.error && result.error.message) || 'Upload failed');
+				  attachments.push({ id: result.id, url: URL.createObjectURL(file) });
+				  renderPendingImages();
+				} catch (error) {
+				  console.error('Error uploading image:', error);
+				  alert('Could not attach ' + file.name + ': ' + error.message);
+				}
+			  }
+			});
+
+			const uploadDocumentBtn = document.getElementById('uploadDocument');
+			const documentInput = document.getElementById('documentInput');
+			uploadDocumentBtn.addEventListener('click', () => documentInput.click());
+			documentInput.addEventListener('change', async () => {
+			  const file = documentInput.files && documentInput.files[0];
+			  documentInput.value = '';
+			  if (!file) return;
+			  try {
+				const form = new FormData();
+				form.append('file', file);
+				const res = await apiFetch('/api/documents', { method: 'POST', body: form });
+				const result = await res.json();
+				if (!res.ok) throw new Error((result.error && result.error.message) || 'Upload failed');
+				alert('Remembered ' + result.name + ' as ' + result.chunkCount + ' chunk(s)');
+			  } catch (error) {
+				console.error('Error uploading document:', error);
+				alert('Could not upload ' + file.name + ': ' + error.message);
+			  }
+			});
+
+			// Fetch a stored image with the API key and return a URL an <img> can show
+			async function loadImageUrl(id) {
+			  const res = await apiFetch('/api/images/' + encodeURIComponent(id));
+			  if (!res.ok) throw new Error('Image not found');
+			  return URL.createObjectURL(await res.blob());
+			}
+
+			// Show a finished reply, with its sources, in the assistant bubble
+			function showResult(body, result) {
+			  body.classList.remove('streaming');
+			  if (result.success && result.message) {
+				body.replaceChildren(renderMarkdown(result.message));
+				if (result.citations && result.citations.length > 0) {
+				  const sources = document.createElement('div');
+				  sources.className = 'sources';
+				  sources.textContent = 'Sources: ' + result.citations.map((citation) => '[' + citation.index + '] ' + citation.source).join(', ');
+				  body.appendChild(sources);
+				}
+				messages.scrollTop = messages.scrollHeight;
+			  } else {
+				body.textContent = 'Error: ' + ((result.error && result.error.message) || 'Unknown error');
+			  }
+			}
+
+			function setBusy(busy) {
+			  input.disabled = busy;
+			  if (busy) sendBtn.setAttribute('data-busy', 'true');
+			  else sendBtn.removeAttribute('data-busy');
+			  if (!busy) input.focus();
+			}
+
+			// The conversation's live session (GET /api/chat/session). While it is open, messages are
+			// sent over it, and every tab of the conversation sees the others' messages, replies,
+			// typing and status. Without it, messages go to POST /api/chat.
+			const sessionStatus = document.getElementById('sessionStatus');
+			const STATUS_TEXT = { thinking: 'Assistant is thinking…', responding: 'Assistant is responding…', queued: 'Message queued…', idle: '' };
+			let session = null;
+			let reply = null; // the assistant bubble the session is streaming into
+			let ownReply = false; // whether that reply answers a message from this tab
+			let typingTimer = null;
+
+			function connectSession() {
+			  const apiKey = localStorage.getItem('chatbot-api-key');
+			  if (!apiKey) return;
+			  const url = (location.protocol === 'https:' ? 'wss://' : 'ws://') + location.host + '/api/chat/session?conversationId=' + encodeURIComponent(conversationId);
+			  const socket = new WebSocket(url, ['chatbot', 'bearer.' + apiKey]);
+			  socket.addEventListener('open', () => { session = socket; });
+			  socket.addEventListener('message', (event) => handleSessionEvent(JSON.parse(event.data)));
+			  socket.addEventListener('close', () => {
+				if (session !== socket) return;
+				session = null;
+				setTimeout(connectSession, 3000);
+			  });
+			}
+
+			function handleSessionEvent(event) {
+			  if (event.type === 'status' || event.type === 'history') {
+				sessionStatus.textContent = STATUS_TEXT[event.status] || '';
+				// A reply interrupted by an error in another tab is left as streamed
+				if (event.status === 'idle' && reply && !ownReply) {
+				  reply.classList.remove('streaming');
+				  reply = null;
+				}
+			  } else if (event.type === 'typing') {
+				clearTimeout(typingTimer);
+				sessionStatus.textContent = event.typing ? 'Typing in another tab…' : '';
+				if (event.typing) typingTimer = setTimeout(() => { sessionStatus.textContent = ''; }, 3000);
+			  } else if (event.type === 'user_message') {
+				appendMessage({ me: true, text: event.turn.content });
+				reply = appendMessage({ me: false, text: '' });
+				reply.classList.add('streaming');
+				ownReply = false;
+			  } else if (event.type === 'token' && reply) {
+				reply.textContent += event.token;
+				messages.scrollTop = messages.scrollHeight;
+			  } else if ((event.type === 'done' || event.type === 'error') && reply) {
+				showResult(reply, event);
+				if (ownReply) setBusy(false);
+				reply = null;
+			  }
+			}
+
+			let typingSentAt = 0;
+			input.addEventListener('input', () => {
+			  if (!session || Date.now() - typingSentAt < 2000) return;
+			  typingSentAt = Date.now();
+			  session.send(JSON.stringify({ type: 'typing', typing: true }));
+			});
+
+			async function sendMessage() {
+			  const text = (input.value || '').trim();
+			  const sending = attachments;
+			  if (!text && sending.length === 0) return;
+			  // Add user message
+			  appendMessage({ me: true, text, imageUrls: sending.map((attachment) => attachment.url) });
+			  input.value = '';
+			  attachments = [];
+			  renderPendingImages();
+			  // Prepare assistant placeholder
+			  const assistantBody = appendMessage({ me: false, text: '' });
+
+			  // Disable input while waiting, but keep button interactive
+			  setBusy(true);
+			  const body = { message: text, images: sending.map((attachment) => attachment.id) };
+
+			  if (session) {
+				assistantBody.classList.add('streaming');
+				reply = assistantBody;
+				ownReply = true;
+				session.send(JSON.stringify(Object.assign({ type: 'message' }, body)));
+				return;
+			  }
+
+			  try {
+				const res = await apiFetch('/api/chat', {
+				  method: 'POST',
+				  headers: {
+					'X-Conversation-Id': conversationId,
+					'Content-Type': 'application/json'
+				  },
+				  body: JSON.stringify(Object.assign({ stream: true }, body))
+				});
+				if (!res.ok && res.status !== 429) throw new Error('Network error');
+
+				let result;
+				if ((res.headers.get('content-type') || '').includes('text/event-stream')) {
+				  // Show tokens as plain text while they stream; the whole reply is rendered at the end
+				  assistantBody.classList.add('streaming');
+				  result = await readChatStream(res, (token) => {
+					assistantBody.textContent += token;
+					messages.scrollTop = messages.scrollHeight;
+				  });
+				} else {
+				  result = await res.json();
+				}
+				showResult(assistantBody, result);
+			  } catch (err) {
+				assistantBody.classList.remove('streaming');
+				assistantBody.textContent = '[Error receiving response]';
+			  } finally {
+				setBusy(false);
+			  }
+			}
+
+			// Restore this tab's conversation from the server transcript
+			async function loadHistory() {
+			  try {
+				const res = await apiFetch('/api/history?conversationId=' + encodeURIComponent(conversationId));
+				if (!res.ok) return;
+				const result = await res.json();
+				for (const turn of result.messages || []) {
+				  const imageUrls = await Promise.all((turn.imageIds || []).map((id) => loadImageUrl(id).catch(() => null)));
+				  appendMessage({ me: turn.role === 'user', text: turn.content, imageUrls: imageUrls.filter(Boolean) });
+				}
+			  } catch (error) {
+				console.error('Error loading history:', error);
+			  }
+			}
+			loadHistory().then(connectSession);
+
+			sendBtn.addEventListener('click', sendMessage);
+			input.addEventListener('keydown', (e) => {
+			  if (e.key === 'Enter' && !e.shiftKey) {
+				e.preventDefault();
+				sendMessage();
+			  }
+			});
+
+			// Get Memory button handler
+			const getMemoryBtn = document.getElementById('getMemory');
+			const memoryModal = document.getElementById('memoryModal');
+			const memoryContent = document.getElementById('memoryContent');
+			const closeBtn = document.querySelector('.close');
+			
+			// Memories are listed a page at a time; nextCursor drives "Load more"
+			let memoryCursor = null;
+
+			async function loadMemories(append) {
+			  const query = append && memoryCursor ? '?cursor=' + encodeURIComponent(memoryCursor) : '';
+			  const response = await apiFetch('/api/memory' + query, { method: 'GET' });
+			  const result = await response.json();
+
+			  if (!append) {
+				if (!result.memories || result.memories.length === 0) {
+				  memoryContent.innerHTML = '<p>No memories found. Start chatting to create memories!</p>';
+				  return;
+				}
+				// Create table HTML
+				memoryContent.innerHTML = '<p>Newest memories first</p>' +
+				  '<table class="memory-table">' +
+					'<thead>' +
+					  '<tr>' +
+						'<th>ID</th>' +
+						'<th>Vector Preview</th>' +
+						'<th>Type</th>' +
+						'<th>Original Message</th>' +
+						'<th>Timestamp</th>' +
+						'<th></th>' +
+					  '</tr>' +
+					'</thead>' +
+					'<tbody id="memoryRows"></tbody>' +
+				  '</table>' +
+				  '<button class="tool" id="loadMoreMemories">Load more</button>';
+			  }
+
+			  // Memory text is user and model content, so rows are built with textContent only
+			  const rows = document.getElementById('memoryRows');
+			  (result.memories || []).forEach(memory => {
+				const row = createElement('tr');
+				row.setAttribute('data-id', memory.id);
+				row.appendChild(createElement('td', '', memory.id));
+				const vectorCell = createElement('td');
+				vectorCell.appendChild(createElement('span', 'vector-preview', memory.vector));
+				row.appendChild(vectorCell);
+				row.appendChild(createElement('td', '', memory.type));
+				row.appendChild(createElement('td', 'message-cell', memory.message));
+				row.appendChild(createElement('td', '', new Date(memory.timestamp).toLocaleString()));
+				const actions = createElement('td', 'row-actions');
+				const pin = createElement('button', 'row-action', memory.pinned ? 'Unpin' : 'Pin');
+				pin.setAttribute('data-action', 'pin');
+				pin.setAttribute('data-pinned', String(!!memory.pinned));
+				const edit = createElement('button', 'row-action', 'Edit');
+				edit.setAttribute('data-action', 'edit');
+				const remove = createElement('button', 'row-action danger', 'Delete');
+				remove.setAttribute('data-action', 'delete');
+				actions.append(pin, edit, remove);
+				row.appendChild(actions);
+				rows.appendChild(row);
+			  });
+
+			  memoryCursor = result.nextCursor;
+			  document.getElementById('loadMoreMemories').style.display = memoryCursor ? 'block' : 'none';
+			}
+
+			if (getMemoryBtn) {
+			  getMemoryBtn.addEventListener('click', async () => {
+				try {
+				  memoryContent.innerHTML = '<p>Loading memories...</p>';
+				  memoryModal.style.display = 'block';
+				  await loadMemories(false);
+				} catch (error) {
+				  console.error('Error calling get memory:', error);
+				  memoryContent.innerHTML = '<p>Error loading memories. Please try again.</p>';
+				}
+			  });
+			}
+
+			// Row actions: pin and edit (PATCH /api/memory/:id) and delete (DELETE /api/memory/:id)
+			memoryContent.addEventListener('click', async (event) => {
+			  const target = event.target;
+			  if (target.id === 'loadMoreMemories') {
+				try {
+				  await loadMemories(true);
+				} catch (error) {
+				  console.error('Error loading more memories:', error);
+				}
+				return;
+			  }
+
+			  const action = target.getAttribute('data-action');
+			  const row = target.closest('tr');
+			  if (!action || !row) return;
+			  const id = row.getAttribute('data-id');
+			  const endpoint = '/api/memory/' + encodeURIComponent(id);
+
+			  try {
+				if (action === 'delete') {
+				  if (!confirm('Delete this memory?')) return;
+				  const response = await apiFetch(endpoint, { method: 'DELETE' });
+				  if (!response.ok) throw new Error('Delete failed');
+				  row.remove();
+				} else if (action === 'pin') {
+				  const pinned = target.getAttribute('data-pinned') !== 'true';
+				  const response = await apiFetch(endpoint, {
+					method: 'PATCH',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ pinned })
+				  });
+				  if (!response.ok) throw new Error('Update failed');
+				  target.setAttribute('data-pinned', String(pinned));
+				  target.textContent = pinned ? 'Unpin' : 'Pin';
+				} else if (action === 'edit') {
+				  const messageCell = row.querySelector('.message-cell');
+				  const text = prompt('Edit memory', messageCell.textContent);
+				  if (text === null || !text.trim()) return;
+				  const response = await apiFetch(endpoint, {
+					method: 'PATCH',
+					headers: { 'Content-Type': 'application/json' },
+					body: JSON.stringify({ text })
+				  });
+				  if (!response.ok) throw new Error('Update failed');
+				  const memory = await response.json();
+				  messageCell.textContent = memory.message;
+				  row.querySelector('.vector-preview').textContent = memory.vector;
+				}
+			  } catch (error) {
+				console.error('Error updating memory:', error);
+				alert('Could not ' + action + ' memory. Please try again.');
+			  }
+			});
+			
+			// Close modal handlers
+			if (closeBtn) {
+			  closeBtn.addEventListener('click', () => {
+				memoryModal.style.display = 'none';
+			  });
+			}
+			
+			// Close modal when clicking outside
+			window.addEventListener('click', (event) => {
+			  if (event.target === memoryModal) {
+				memoryModal.style.display = 'none';
+			  }
+			});
+
+			// Export Memory button handler: download every memory as JSONL
+			const exportMemoryBtn = document.getElementById('exportMemory');
+			if (exportMemoryBtn) {
+			  exportMemoryBtn.addEventListener('click', async () => {
+				try {
+				  const response = await apiFetch('/api/memory/export');
+				  if (!response.ok) throw new Error('Export failed');
+				  const link = document.createElement('a');
+				  link.href = URL.createObjectURL(await response.blob());
+				  link.download = 'memories.jsonl';
+				  link.click();
+				  URL.revokeObjectURL(link.href);
+				} catch (error) {
+				  console.error('Error exporting memory:', error);
+				  alert('Could not export memory: ' + error.message);
+				}
+			  });
+			}
+
+			// Remove Memory button handler
+			const removeMemoryBtn = document.getElementById('removeMemory');
+			if (removeMemoryBtn) {
+			  removeMemoryBtn.addEventListener('click', async () => {
+				try {
+				  const response = await apiFetch('/api/memory', { method: 'DELETE' });
+				  const result = await response.json();
+				  console.log('Memory deletion response:', result);
+				  alert('Memory deletion completed - check console for details');
+				} catch (error) {
+				  console.error('Error calling memory deletion:', error);
+				}
+			  });
+			}
+		  </script>
+		</body>
+		</html>`;
+
+// The page's own inline <style> and <script> carry a fresh nonce; the CSP allows nothing else to
+// run, and the page may only talk to this origin.
+export function chatPageResponse(): Response {
+	const nonce = btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(16))));
+	const policy = [
+		"default-src 'none'",
+		`script-src 'nonce-${nonce}'`,
+		`style-src 'nonce-${nonce}'`,
+		"img-src 'self' blob: data:",
+		"connect-src 'self'",
+		"base-uri 'none'",
+		"form-action 'none'",
+		"frame-ancestors 'none'"
+	].join("; ");
+	return new Response(CHAT_PAGE_HTML.replaceAll("{{nonce}}", nonce), {
+		headers: {
+			"content-type": "text/html; charset=utf-8",
+			"content-security-policy": policy,
+			"x-content-type-options": "nosniff",
+			"referrer-policy": "no-referrer"
+		}
+	});
+}
@@ -0,0 +1,92 @@
+import { estimateMessageTokens, recordTokenUsage, type Principal } from "./auth";
+import type { Env } from "./env";
+import { estimateTokens } from "./history";
+import { StorageError } from "./http";
+import type { LlmClient, OpenRouterMessage, TokenUsage } from "./llm";
+import { getLogger } from "./log";
+
+// What a user did on one UTC day: API requests, and the LLM calls and tokens they caused.
+export interface UsageCounts {
+	requests: number;
+	llmCalls: number;
+	promptTokens: number;
+	completionTokens: number;
+}
+
+export interface DailyUsage extends UsageCounts {
+	date: string;
+}
+
+interface UsageRow {
+	day: string;
+	requests: number;
+	llm_calls: number;
+	prompt_tokens: number;
+	completion_tokens: number;
+}
+
+export function utcDate(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
+
+// Add to the user's counters for today. Usage is bookkeeping: a failed write is logged, never
+// thrown, so it cannot fail the request it is counting.
+export async function recordUsage(env: Env, userId: string, counts: Partial<UsageCounts>, now: Date = new Date()): Promise<void> {
+	try {
+		await env.DB.prepare(
+			`INSERT INTO usage_daily (user_id, day, requests, llm_calls, prompt_tokens, completion_tokens)
+			VALUES (?1, ?2, ?3, ?4, ?5, ?6)
+			ON CONFLICT (user_id, day) DO UPDATE SET
+				requests = requests + excluded.requests,
+				llm_calls = llm_calls + excluded.llm_calls,
+				prompt_tokens = prompt_tokens + excluded.prompt_tokens,
+				completion_tokens = completion_tokens + excluded.completion_tokens`
+		).bind(userId, utcDate(now), counts.requests ?? 0, counts.llmCalls ?? 0, counts.promptTokens ?? 0, counts.completionTokens ?? 0).run();
+	} catch (error) {
+		getLogger(env).error("usage_record_failed", { userId, error });
+	}
+}
+
+// The user's usage for each day from `from` to `to` (inclusive, YYYY-MM-DD), oldest first.
+// Days without activity are left out.
+export async function getDailyUsage(env: Env, userId: string, from: string, to: string): Promise<DailyUsage[]> {
+	let rows: UsageRow[];
+	try {
+		const result = await env.DB.prepare(
+			`SELECT day, requests, llm_calls, prompt_tokens, completion_tokens FROM usage_daily
+			WHERE user_id = ?1 AND day BETWEEN ?2 AND ?3 ORDER BY day`
+		).bind(userId, from, to).all<UsageRow>();
+		rows = result.results;
+	} catch (error) {
+		throw new StorageError(`D1 usage query failed: ${error instanceof Error ? error.message : "unknown error"}`);
+	}
+	return rows.map((row) => ({
+		date: row.day,
+		requests: row.requests,
+		llmCalls: row.llm_calls,
+		promptTokens: row.prompt_tokens,
+		completionTokens: row.completion_tokens
+	}));
+}
+
+export function sumUsage(days: UsageCounts[]): UsageCounts {
+	return days.reduce((total, day) => ({
+		requests: total.requests + day.requests,
+		llmCalls: total.llmCalls + day.llmCalls,
+		promptTokens: total.promptTokens + day.promptTokens,
+		completionTokens: total.completionTokens + day.completionTokens
+	}), { requests: 0, llmCalls: 0, promptTokens: 0, completionTokens: 0 });
+}
+
+// Count what an exchange cost against the key's daily quota and the user's usage. Token
+// counts reported by the providers are used; when none were reported they are estimated.
+export async function recordLlmUsage(env: Env, principal: Principal, llm: LlmClient, messages: OpenRouterMessage[], reply: string): Promise<TokenUsage> {
+	const reported = llm.usage.promptTokens + llm.usage.completionTokens > 0;
+	const usage: TokenUsage = reported
+		? { promptTokens: llm.usage.promptTokens, completionTokens: llm.usage.completionTokens }
+		: { promptTokens: estimateMessageTokens(messages, ""), completionTokens: estimateTokens(reply) };
+	await recordTokenUsage(env, principal, usage.promptTokens + usage.completionTokens);
+	await recordUsage(env, principal.userId, { llmCalls: llm.usage.calls, ...usage });
+	getLogger(env).info("llm_usage", { userId: principal.userId, calls: llm.usage.calls, ...usage, estimated: !reported });
+	return usage;
+}
@@ -0,0 +1,151 @@
+import { ApiError, type FieldError } from "./http";
+
+// A validator checks one value, recording problems against its field path rather than throwing,
+// so a single response can report every invalid field at once.
+export type Validator<T> = (value: unknown, field: string, errors: FieldError[]) => T;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+interface StringOptions {
+	// Trim surrounding whitespace before checking lengths
+	trim?: boolean;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: RegExp;
+	patternMessage?: string;
+}
+
+interface NumberOptions {
+	min?: number;
+	max?: number;
+	integer?: boolean;
+}
+
+interface ArrayOptions {
+	minItems?: number;
+	maxItems?: number;
+}
+
+function fail<T>(errors: FieldError[], field: string, message: string): T {
+	errors.push({ field, message });
+	return undefined as T;
+}
+
+export function string(options: StringOptions = {}): Validator<string> {
+	return (value, field, errors) => {
+		if (value === undefined || value === null) {
+			return fail(errors, field, "is required");
+		}
+		if (typeof value !== "string") {
+			return fail(errors, field, "must be a string");
+		}
+		const text = options.trim ? value.trim() : value;
+		if (options.minLength !== undefined && text.length < options.minLength) {
+			return fail(errors, field, options.minLength === 1 ? "must not be empty" : `must be at least ${options.minLength} characters`);
+		}
+		if (options.maxLength !== undefined && text.length > options.maxLength) {
+			return fail(errors, field, `must be at most ${options.maxLength} characters`);
+		}
+		if (options.pattern && !options.pattern.test(text)) {
+			return fail(errors, field, options.patternMessage || `must match ${options.pattern}`);
+		}
+		return text;
+	};
+}
+
+export function number(options: NumberOptions = {}): Validator<number> {
+	return (value, field, errors) => {
+		if (value === undefined || value === null) {
+			return fail(errors, field, "is required");
+		}
+		if (typeof value !== "number" || !Number.isFinite(value)) {
+			return fail(errors, field, "must be a number");
+		}
+		if (options.integer && !Number.isInteger(value)) {
+			return fail(errors, field, "must be an integer");
+		}
+		if (options.min !== undefined && value < options.min) {
+			return fail(errors, field, `must be at least ${options.min}`);
+		}
+		if (options.max !== undefined && value > options.max) {
+			return fail(errors, field, `must be at most ${options.max}`);
+		}
+		return value;
+	};
+}
+
+export function boolean(): Validator<boolean> {
+	return (value, field, errors) => {
+		if (typeof value !== "boolean") {
+			return fail(errors, field, value === undefined || value === null ? "is required" : "must be a boolean");
+		}
+		return value;
+	};
+}
+
+export function oneOf<T extends string>(values: readonly T[]): Validator<T> {
+	return (value, field, errors) => {
+		if (typeof value !== "string" || !(values as readonly string[]).includes(value)) {
+			return fail(errors, field, `must be one of: ${values.join(", ")}`);
+		}
+		return value as T;
+	};
+}
+
+export function array<T>(items: Validator<T>, options: ArrayOptions = {}): Validator<T[]> {
+	return (value, field, errors) => {
+		if (!Array.isArray(value)) {
+			return fail(errors, field, value === undefined || value === null ? "is required" : "must be an array");
+		}
+		if (options.minItems !== undefined && value.length < options.minItems) {
+			return fail(errors, field, `must have at least ${options.minItems} items`);
+		}
+		if (options.maxItems !== undefined && value.length > options.maxItems) {
+			return fail(errors, field, `must have at most ${options.maxItems} items`);
+		}
+		return value.map((item, i) => items(item, `${field}[${i}]`, errors));
+	};
+}
+
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+	return (value, field, errors) => (value === undefined || value === null ? undefined : validator(value, field, errors));
+}
+
+// Like optional, but keeps an explicit null apart from an absent value, for fields a client can unset
+export function nullable<T>(validator: Validator<T>): Validator<T | null | undefined> {
+	return (value, field, errors) => (value === null ? null : optional(validator)(value, field, errors));
+}
+
+export function object<S extends Record<string, Validator<unknown>>>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+	return (value, field, errors) => {
+		if (typeof value !== "object" || value === null || Array.isArray(value)) {
+			return fail(errors, field || "body", "must be a JSON object");
+		}
+		const result: Record<string, unknown> = {};
+		for (const [key, validator] of Object.entries(shape)) {
+			result[key] = validator((value as Record<string, unknown>)[key], field ? `${field}.${key}` : key, errors);
+		}
+		return result as { [K in keyof S]: Infer<S[K]> };
+	};
+}
+
+// Check a value against a schema, throwing a 400 that lists every invalid field.
+export function validate<T>(schema: Validator<T>, value: unknown): T {
+	const errors: FieldError[] = [];
+	const result = schema(value, "", errors);
+	if (errors.length > 0) {
+		throw new ApiError(400, "validation_failed", "Request validation failed", { fields: errors });
+	}
+	return result;
+}
+
+// Parse and validate a JSON request body. Unknown properties are ignored.
+export async function parseBody<T>(request: Request, schema: Validator<T>): Promise<T> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		throw new ApiError(400, "invalid_json", "Request body must be valid JSON");
+	}
+	return validate(schema, body);
+}
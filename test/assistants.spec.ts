@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { assistantMemoryScope, buildSystemPrompt, DEFAULT_ASSISTANT, type AssistantProfile } from '../src/assistants';
+
+const profile: AssistantProfile = {
+	...DEFAULT_ASSISTANT,
+	id: '01ARZ3NDEKTSV4RRFFQ69G5FAV',
+	name: 'Chef',
+	systemPrompt: 'You are a chef.',
+	memoryTemplate: 'What you know about the cook:\n{{memories}}\nUse it sparingly.',
+};
+
+describe('buildSystemPrompt', () => {
+	it('places the memories in the template after the persona', () => {
+		expect(buildSystemPrompt(profile, ['User is vegetarian.', 'User owns a wok.'], ['Cite sources.'])).toBe(
+			'You are a chef.\n\nWhat you know about the cook:\nUser is vegetarian.\n\nUser owns a wok.\nUse it sparingly.\n\nCite sources.'
+		);
+	});
+
+	it('leaves the template out without memories', () => {
+		expect(buildSystemPrompt(profile, [])).toBe('You are a chef.');
+	});
+});
+
+describe('assistantMemoryScope', () => {
+	it('uses the user memory unless the assistant is isolated', () => {
+		const scope = { userId: 'alice', conversationId: 'c1' };
+		expect(assistantMemoryScope(scope, profile)).toBe(scope);
+		expect(assistantMemoryScope(scope, { ...profile, isolatedMemory: true })).toEqual({ userId: `asst_${profile.id}`, conversationId: 'c1' });
+	});
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { cacheResponse, findCachedResponse, getResponseCacheContext } from '../src/cache';
+import { chatRequestSchema } from '../src/chat';
+import { storeUserMemory } from '../src/memory';
+import { validate } from '../src/validation';
+import { authHeaders, chatRequest, createOfflineEnv, fetchWorker, mockOpenRouter, useFetchMock } from './fakes';
+
+describe('Response cache', () => {
+	useFetchMock();
+
+	const cachedEnv = () => createOfflineEnv({ RESPONSE_CACHE: 'true', RESPONSE_CACHE_SIMILARITY: '0.9' });
+
+	it('is off unless enabled', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('cache-user');
+		mockOpenRouter('Green tea.');
+		mockOpenRouter('Green tea, still.');
+
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?' }));
+		const again = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?' }));
+
+		expect(again.json()).toMatchObject({ message: 'Green tea, still.' });
+		expect(again.headers.get('X-Cache')).toBeNull();
+	});
+
+	it('answers a repeated or near-identical prompt from the cache', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const headers = await authHeaders('cache-user');
+		const requests = mockOpenRouter('You like green tea.');
+
+		const first = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?' }));
+		const repeated = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: '  which tea do I LIKE? ', conversationId: 'c2' }));
+		const similar = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like best?' }));
+
+		expect(requests).toHaveLength(1);
+		expect(first.headers.get('X-Cache')).toBe('MISS');
+		expect(repeated.headers.get('X-Cache')).toBe('HIT');
+		expect(repeated.headers.get('Age')).toMatch(/^\d+$/);
+		expect(repeated.json()).toMatchObject({ message: 'You like green tea.', conversationId: 'c2', success: true });
+		expect(similar.headers.get('X-Cache')).toBe('HIT');
+
+		// The cached answer still goes into the conversation's transcript
+		const history = await fetchWorker(offlineEnv, '/api/history?conversationId=c2', { headers });
+		expect(history.json<{ messages: Array<{ role: string; content: string }> }>().messages.map(({ role, content }) => ({ role, content }))).toEqual([
+			{ role: 'user', content: '  which tea do I LIKE? ' },
+			{ role: 'assistant', content: 'You like green tea.' },
+		]);
+	});
+
+	it('streams a cached answer', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const headers = await authHeaders('cache-user');
+		mockOpenRouter('You like green tea.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?', stream: true }));
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?', stream: true }));
+
+		expect(response.headers.get('X-Cache')).toBe('HIT');
+		expect(response.body).toContain('event: token\ndata: {"token":"You like green tea."}');
+		expect(response.body).toContain('event: done');
+	});
+
+	it('is skipped when the request opts out', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const headers = await authHeaders('cache-user');
+		mockOpenRouter('You like green tea.');
+		mockOpenRouter('Green tea, as before.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?' }));
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?', cache: false }));
+
+		expect(response.headers.get('X-Cache')).toBe('BYPASS');
+		expect(response.json()).toMatchObject({ message: 'Green tea, as before.' });
+	});
+
+	it('is invalidated when memories change', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const headers = await authHeaders('cache-user');
+		mockOpenRouter('I do not know yet.');
+		mockOpenRouter('You like oolong.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?' }));
+
+		await fetchWorker(offlineEnv, '/api/memory', chatRequest(headers, { text: 'User likes oolong tea' }));
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Which tea do I like?' }));
+
+		expect(response.headers.get('X-Cache')).toBe('MISS');
+		expect(response.json()).toMatchObject({ message: 'You like oolong.' });
+	});
+
+	it('is invalidated by every memory write, recorded chat turns included', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const generation = () => offlineEnv.messageId.get('response-cache-generation:cache-user');
+		await storeUserMemory(offlineEnv, { userId: 'cache-user' }, [{ text: 'Which tea do I like?', type: 'user_message' }]);
+		const inserted = await generation();
+
+		await storeUserMemory(offlineEnv, { userId: 'cache-user' }, [{ text: 'Which tea do I like?', type: 'user_message' }]);
+
+		expect(inserted).not.toBeNull();
+		expect(await generation()).not.toBe(inserted);
+	});
+
+	it('does not answer from the cache after a fact is stated in another conversation', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const headers = await authHeaders('cache-user');
+		mockOpenRouter('I do not know where you live.');
+		mockOpenRouter('Congratulations on the move.');
+		mockOpenRouter('You live in Berlin.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Where do I live?', conversationId: 'c1' }));
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'I moved to Berlin.', conversationId: 'c2' }));
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Where do I live?', conversationId: 'c3' }));
+
+		expect(response.headers.get('X-Cache')).toBe('MISS');
+		expect(response.json()).toMatchObject({ message: 'You live in Berlin.' });
+	});
+
+	it('does not share answers across conversation context', async () => {
+		const { env: offlineEnv } = cachedEnv();
+		const headers = await authHeaders('cache-user');
+		mockOpenRouter('Nice to meet you, Ada.');
+		mockOpenRouter('Your name is Ada.');
+		mockOpenRouter('I do not know your name.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Hello, I am Ada.', conversationId: 'c1' }));
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'What is my name?', conversationId: 'c1' }));
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'What is my name?' }));
+
+		expect(response.headers.get('X-Cache')).toBe('MISS');
+	});
+
+	it('expires answers after the TTL', async () => {
+		const { env: offlineEnv } = createOfflineEnv({ RESPONSE_CACHE: 'true', RESPONSE_CACHE_TTL_SECONDS: '120' });
+		const context = (await getResponseCacheContext(offlineEnv, { userId: 'cache-user' }, validate(chatRequestSchema, { message: 'Which tea do I like?' })))!;
+		const createdAt = new Date();
+		await cacheResponse(offlineEnv, context, { message: 'You like green tea.', conversationId: 'c1', assistantId: null, memories: [], citations: [], tools: [], images: [], success: true }, createdAt);
+
+		expect(await findCachedResponse(offlineEnv, context, createdAt.getTime() + 60_000)).toMatchObject({ result: { message: 'You like green tea.' }, ageSeconds: 60 });
+		expect(await findCachedResponse(offlineEnv, context, createdAt.getTime() + 120_000)).toBeNull();
+	});
+});
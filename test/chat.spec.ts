@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { storeUserMemory } from '../src/memory';
+import { authHeaders, chatRequest, connectSession, createOfflineEnv, fetchWorker, mockOpenRouter, useFetchMock, useSessionEnv } from './fakes';
+
+describe('POST /api/chat', () => {
+	useFetchMock();
+
+	it('answers with the relevant memories and records the exchange', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const headers = await authHeaders('chat-user');
+		await storeUserMemory(offlineEnv, { userId: 'chat-user' }, [
+			{ text: 'User likes green tea', type: 'fact' },
+			{ text: 'User owns a bicycle', type: 'fact' },
+		]);
+		const requests = mockOpenRouter('You like green tea.');
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Does user like green tea?', conversationId: 'c1' }));
+
+		expect(response.status).toBe(200);
+		const result = response.json<{ message: string; conversationId: string; memories: Array<{ text: string }> }>();
+		expect(result).toMatchObject({ message: 'You like green tea.', conversationId: 'c1', success: true });
+		expect(result.memories.map((memory) => memory.text)).toEqual(['User likes green tea']);
+
+		// The memory goes to the model in the system message, followed by the question
+		const [request] = requests;
+		expect(request.stream).toBe(false);
+		expect(request.messages[0]).toMatchObject({ role: 'system', content: expect.stringContaining('User likes green tea') });
+		expect(request.messages[0].content).not.toContain('bicycle');
+		expect(request.messages[request.messages.length - 1]).toEqual({ role: 'user', content: 'Does user like green tea?' });
+
+		const history = await fetchWorker(offlineEnv, '/api/history?conversationId=c1', { headers });
+		expect(history.json<{ messages: Array<{ role: string; content: string }> }>().messages.map(({ role, content }) => ({ role, content }))).toEqual([
+			{ role: 'user', content: 'Does user like green tea?' },
+			{ role: 'assistant', content: 'You like green tea.' },
+		]);
+		expect(vectorize.texts('chat-user')).toEqual(expect.arrayContaining(['Does user like green tea?', 'You like green tea.']));
+	});
+
+	it('sends earlier turns of the conversation with the next message', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('chat-user');
+		mockOpenRouter('Nice to meet you, Ada.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'My name is Ada.', conversationId: 'c2' }));
+		const requests = mockOpenRouter('Your name is Ada.');
+
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'What is my name?', conversationId: 'c2' }));
+
+		expect(requests[0].messages.slice(1)).toEqual([
+			{ role: 'user', content: 'My name is Ada.' },
+			{ role: 'assistant', content: 'Nice to meet you, Ada.' },
+			{ role: 'user', content: 'What is my name?' },
+		]);
+	});
+
+	it('streams the reply as Server-Sent Events', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const requests = mockOpenRouter('Hello there friend');
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(await authHeaders('chat-user'), { message: 'Hi', stream: true }));
+
+		expect(requests[0].stream).toBe(true);
+		expect(response.headers.get('content-type')).toBe('text/event-stream');
+		const events = response.body.trim().split('\n\n').map((event) => {
+			const [name, data] = event.split('\n');
+			return { event: name.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+		});
+		expect(events.filter((event) => event.event === 'token').map((event) => event.data.token)).toEqual(['Hello ', 'there ', 'friend']);
+		expect(events[events.length - 1]).toMatchObject({ event: 'done', data: { message: 'Hello there friend', success: true } });
+	});
+
+	it('reports LLM failures as llm_error and records nothing', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const headers = await authHeaders('chat-user');
+		mockOpenRouter('overloaded', { status: 500 });
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Hi', conversationId: 'c3' }));
+
+		expect(response.status).toBe(502);
+		expect(response.json()).toMatchObject({ error: { code: 'llm_error' } });
+		const history = await fetchWorker(offlineEnv, '/api/history?conversationId=c3', { headers });
+		expect(history.json()).toMatchObject({ count: 0 });
+		expect(vectorize.vectors.size).toBe(0);
+	});
+
+	it('still answers when the memory index is down', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		vectorize.error = new Error('index unavailable');
+		mockOpenRouter('Hello!');
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(await authHeaders('chat-user'), { message: 'Hi' }));
+
+		expect(response.status).toBe(200);
+		expect(response.json()).toMatchObject({ message: 'Hello!', memories: [] });
+	});
+
+	it('rejects an empty message without calling the model', async () => {
+		const { env: offlineEnv, ai } = createOfflineEnv();
+
+		const response = await fetchWorker(offlineEnv, '/api/chat', chatRequest(await authHeaders('chat-user'), { message: '  ' }));
+
+		expect(response.status).toBe(400);
+		expect(response.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'message', message: 'is required' }] } });
+		expect(ai.calls).toHaveLength(0);
+	});
+
+	it('answers a conversation in one session with its socket messages', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('chat-user');
+		await useSessionEnv(offlineEnv, 'chat-user', 'mixed');
+		const tab = await connectSession(headers.Authorization.slice('Bearer '.length), 'mixed');
+		await tab.next('history');
+
+		mockOpenRouter('Hello over HTTP.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Hi over HTTP', conversationId: 'mixed' }));
+		expect(await tab.next('user_message')).toMatchObject({ turn: { role: 'user', content: 'Hi over HTTP' } });
+		expect(await tab.next('done')).toMatchObject({ message: 'Hello over HTTP.', conversationId: 'mixed' });
+
+		// Each message is answered with the turns that came before it, whichever way they were sent
+		const socketRequests = mockOpenRouter('Hello over the socket.');
+		tab.ws.send(JSON.stringify({ type: 'message', message: 'Hi over the socket' }));
+		expect(await tab.next('done')).toMatchObject({ message: 'Hello over the socket.' });
+		expect(socketRequests[0].messages.map((message) => message.content)).toEqual(expect.arrayContaining(['Hi over HTTP', 'Hello over HTTP.']));
+
+		const httpRequests = mockOpenRouter('Goodbye.');
+		await fetchWorker(offlineEnv, '/api/chat', chatRequest(headers, { message: 'Bye', conversationId: 'mixed' }));
+		expect(httpRequests[0].messages.map((message) => message.content)).toEqual(expect.arrayContaining(['Hi over the socket', 'Hello over the socket.']));
+
+		const late = await connectSession(headers.Authorization.slice('Bearer '.length), 'mixed');
+		const { messages } = (await late.next('history')) as { type: string; messages: Array<{ content: string }> };
+		expect(messages.map((message) => message.content)).toEqual(['Hi over HTTP', 'Hello over HTTP.', 'Hi over the socket', 'Hello over the socket.', 'Bye', 'Goodbye.']);
+		tab.ws.close();
+		late.ws.close();
+	});
+});
+
+describe('POST /v1/chat/completions', () => {
+	useFetchMock();
+
+	const completion = (headers: Record<string, string>, body: object) =>
+		chatRequest(headers, { messages: [{ role: 'user', content: 'What should I cook?' }], ...body });
+
+	it('answers unknown models as the default and passes the sampling settings', async () => {
+		const { env: offlineEnv } = createOfflineEnv({ OPENROUTER_MODEL: 'upstream/default' });
+		const headers = await authHeaders('openai-user');
+		const requests = mockOpenRouter('Pasta.');
+
+		const response = await fetchWorker(offlineEnv, '/v1/chat/completions', completion(headers, { model: 'gpt-4o', temperature: 0.3, max_tokens: 64 }));
+
+		expect(response.json()).toMatchObject({ model: 'chatbot-with-memory', choices: [{ message: { content: 'Pasta.' } }] });
+		expect(requests[0]).toMatchObject({ model: 'upstream/default', temperature: 0.3, max_tokens: 64 });
+	});
+
+	it('answers as the assistant a model is named after', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('openai-user');
+		await fetchWorker(offlineEnv, '/api/assistants', chatRequest(headers, { name: 'Chef', systemPrompt: 'You are a chef.', model: 'upstream/chef', temperature: 0.9, maxTokens: 512 }));
+		const requests = mockOpenRouter('Risotto.');
+
+		const response = await fetchWorker(offlineEnv, '/v1/chat/completions', completion(headers, { model: 'chef', max_tokens: 100 }));
+		const models = await fetchWorker(offlineEnv, '/v1/models', { headers });
+
+		expect(response.json()).toMatchObject({ model: 'Chef', choices: [{ message: { content: 'Risotto.' } }] });
+		expect(requests[0]).toMatchObject({ model: 'upstream/chef', temperature: 0.9, max_tokens: 100 });
+		expect(requests[0].messages[0]).toEqual({ role: 'system', content: 'You are a chef.' });
+		expect(models.json<{ data: Array<{ id: string }> }>().data.map((model) => model.id)).toEqual(['chatbot-with-memory', 'Chef']);
+	});
+
+	it('sends messages with image parts to the vision model', async () => {
+		const { env: offlineEnv } = createOfflineEnv({ OPENROUTER_MODEL: 'upstream/default', OPENROUTER_VISION_MODEL: 'upstream/vision' });
+		const headers = await authHeaders('openai-user');
+		const requests = mockOpenRouter('A bowl of ramen.');
+		const content = [{ type: 'text', text: 'What is in this picture?' }, { type: 'image_url', image_url: { url: 'https://images.example.com/ramen.png' } }];
+
+		const response = await fetchWorker(offlineEnv, '/v1/chat/completions', completion(headers, { model: 'chatbot-with-memory', messages: [{ role: 'user', content }] }));
+
+		expect(response.json()).toMatchObject({ choices: [{ message: { content: 'A bowl of ramen.' } }] });
+		expect(requests[0].model).toBe('upstream/vision');
+		expect(requests[0].messages.at(-1)).toEqual({ role: 'user', content });
+	});
+});
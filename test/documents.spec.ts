@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, citedIn, deleteUserDocument, getUserDocument, htmlToText, ingestDocument, numberCitations, resolveDocumentContentType } from '../src/documents';
+import type { RetrievedMemory } from '../src/memory';
+import { createOfflineEnv } from './fakes';
+
+// Chunks small enough that a few paragraphs make several
+const createDocumentEnv = () => createOfflineEnv({ DOCUMENT_CHUNK_SIZE: '200', DOCUMENT_CHUNK_OVERLAP: '50' });
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('chunkText', () => {
+	const text = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} talks about topic ${i}.`).join(' ');
+
+	it('splits text into overlapping chunks whose offsets point into the text', () => {
+		const chunks = chunkText(text, 200, 50);
+		expect(chunks.length).toBeGreaterThan(1);
+		for (const chunk of chunks) {
+			expect(chunk.text.length).toBeLessThanOrEqual(200);
+			expect(text.slice(chunk.offset, chunk.offset + chunk.text.length)).toBe(chunk.text);
+		}
+		for (let i = 1; i < chunks.length; i++) {
+			const previousEnd = chunks[i - 1].offset + chunks[i - 1].text.length;
+			expect(chunks[i].offset).toBeLessThan(previousEnd);
+			expect(chunks[i].offset).toBeGreaterThan(chunks[i - 1].offset);
+		}
+		expect(chunks[chunks.length - 1].text.endsWith('topic 39.')).toBe(true);
+	});
+
+	it('prefers to end chunks at sentence boundaries', () => {
+		for (const chunk of chunkText(text, 200, 50).slice(0, -1)) {
+			expect(chunk.text.endsWith('.')).toBe(true);
+		}
+	});
+
+	it('returns short text as a single chunk', () => {
+		expect(chunkText('  Just one line.  ', 200, 50)).toEqual([{ text: 'Just one line.', offset: 2 }]);
+	});
+});
+
+describe('htmlToText', () => {
+	it('drops markup, scripts and styles and decodes entities', () => {
+		const html = '<html><head><style>p { color: red; }</style><script>alert(1)</script></head>' +
+			'<body><h1>Title</h1><p>Fish &amp; chips&nbsp;&#8364;5</p><ul><li>One</li><li>Two</li></ul></body></html>';
+		expect(htmlToText(html)).toBe('Title\n\nFish & chips €5\n\nOne\n\nTwo');
+	});
+});
+
+describe('resolveDocumentContentType', () => {
+	it('falls back to the file extension for generic types', () => {
+		expect(resolveDocumentContentType('text/html', 'page')).toBe('text/html');
+		expect(resolveDocumentContentType('application/octet-stream', 'notes.md')).toBe('text/markdown');
+		expect(resolveDocumentContentType('', 'report.PDF')).toBe('application/pdf');
+		expect(resolveDocumentContentType('application/json', 'data.json')).toBeNull();
+	});
+});
+
+describe('ingestDocument', () => {
+	it('stores each chunk as a document memory with its source and offset', async () => {
+		const { env: documentEnv, vectorize, ai } = createDocumentEnv();
+		const text = Array.from({ length: 20 }, (_, i) => `Paragraph ${i} explains step ${i} of the setup.`).join('\n\n');
+		const document = await ingestDocument(documentEnv, { userId: 'doc-user' }, encode(text), 'text/markdown', 'setup.md', 'body');
+		const inserted = [...vectorize.vectors.values()];
+
+		expect(document).toMatchObject({ name: 'setup.md', contentType: 'text/markdown', chunkCount: inserted.length });
+		expect(inserted.length).toBeGreaterThan(1);
+		// Chunks are embedded together, not one call per chunk
+		expect(ai.calls.map((call) => (call.input.text as string[]).length)).toEqual([inserted.length]);
+		for (const vector of inserted) {
+			expect(vector.metadata).toMatchObject({ type: 'document', documentId: document.id, source: 'setup.md' });
+			const { memory, offset } = vector.metadata as { memory: string; offset: number };
+			expect(text.slice(offset, offset + memory.length)).toBe(memory);
+		}
+		expect(await getUserDocument(documentEnv, 'doc-user', document.id)).toEqual(document);
+	});
+
+	it('converts PDFs to Markdown before chunking', async () => {
+		const { env: documentEnv, vectorize, ai } = createDocumentEnv();
+		ai.markdown = '# Report\n\nQuarterly revenue grew by ten percent.';
+		await ingestDocument(documentEnv, { userId: 'doc-user' }, encode('%PDF-1.4'), 'application/pdf', 'report.pdf', 'file');
+		expect(vectorize.texts('doc-user')).toEqual(['# Report\n\nQuarterly revenue grew by ten percent.']);
+	});
+
+	it('rejects documents without text', async () => {
+		const { env: documentEnv } = createDocumentEnv();
+		await expect(ingestDocument(documentEnv, { userId: 'doc-user' }, encode('<p> </p>'), 'text/html', 'empty.html', 'body')).rejects.toMatchObject({
+			status: 400,
+			options: { fields: [{ field: 'body', message: 'contains no text' }] },
+		});
+	});
+});
+
+describe('deleteUserDocument', () => {
+	it('deletes the document with all of its chunks', async () => {
+		const { env: documentEnv, vectorize } = createDocumentEnv();
+		const text = Array.from({ length: 20 }, (_, i) => `Line ${i} of the handbook.`).join('\n');
+		const document = await ingestDocument(documentEnv, { userId: 'doc-owner' }, encode(text), 'text/plain', 'handbook.txt', 'body');
+		expect(vectorize.vectors.size).toBe(document.chunkCount);
+
+		expect(await deleteUserDocument(documentEnv, 'someone-else', document.id)).toBeNull();
+		expect(await deleteUserDocument(documentEnv, 'doc-owner', document.id)).toEqual(document);
+		expect(vectorize.vectors.size).toBe(0);
+		expect(await getUserDocument(documentEnv, 'doc-owner', document.id)).toBeNull();
+	});
+});
+
+describe('citations', () => {
+	const memory = (id: string, document?: RetrievedMemory['document']): RetrievedMemory =>
+		({ id, text: `text of ${id}`, type: document ? 'document' : 'fact', document, similarity: 1, score: 1 });
+
+	it('numbers document excerpts and keeps the ones the reply cites', () => {
+		const citations = numberCitations([
+			memory('a', { documentId: 'd1', source: 'guide.md', offset: 0 }),
+			memory('b'),
+			memory('c', { documentId: 'd1', source: 'guide.md', offset: 800 }),
+		]);
+		expect(citations.map((citation) => [citation.index, citation.memoryId])).toEqual([[1, 'a'], [2, 'c']]);
+		expect(citedIn('Use the second step [2].', citations)).toEqual([citations[1]]);
+		expect(citedIn('No sources here.', citations)).toEqual([]);
+	});
+});
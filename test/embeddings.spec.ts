@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { getEmbeddingMigration, getQueryEmbeddingModels } from '../src/embeddings';
+import { runEmbeddingMigrationBatch, searchMemories, storeUserMemory } from '../src/memory';
+import { createOfflineEnv, FAKE_DIMENSIONS, fakeEmbedding } from './fakes';
+
+describe('embedding model versioning', () => {
+	it('records the model and dimension on stored vectors', async () => {
+		const { env: modelEnv, vectorize } = createOfflineEnv();
+		await storeUserMemory(modelEnv, { userId: 'model-user' }, [{ text: 'User likes tea', type: 'fact' }]);
+		expect([...vectorize.vectors.values()][0].metadata).toMatchObject({ embeddingModel: '@cf/baai/bge-base-en-v1.5', embeddingDimensions: FAKE_DIMENSIONS });
+	});
+
+	it('re-embeds memories with a new model in batches while queries keep finding them', async () => {
+		const scope = { userId: 'migrating-user' };
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const texts = Array.from({ length: 60 }, (_, i) => `Memory number ${i}`);
+		await storeUserMemory(offlineEnv, scope, texts.map((text) => ({ text, type: 'fact' as const })));
+
+		const modelEnv = { ...offlineEnv, EMBEDDING_MODEL: 'other-model' };
+
+		const first = await runEmbeddingMigrationBatch(modelEnv);
+		expect(first).toMatchObject({ fromModel: '@cf/baai/bge-base-en-v1.5', toModel: 'other-model', status: 'running', total: 60 });
+		expect(first!.reembedded).toBeGreaterThan(0);
+		expect(first!.reembedded).toBeLessThan(60);
+
+		// Mid-migration, memories from both models are found, each once
+		const found = await searchMemories(modelEnv, scope, 'memory', { topK: 20, minScore: 0, rerank: false });
+		expect(new Set(found.map((memory) => memory.id)).size).toBe(found.length);
+		expect(found.length).toBe(20);
+
+		let migration = first;
+		while (migration?.status === 'running') {
+			migration = await runEmbeddingMigrationBatch(modelEnv);
+		}
+		expect(migration).toMatchObject({ status: 'completed', reembedded: 60 });
+		expect([...vectorize.vectors.values()].every((vector) => vector.metadata?.embeddingModel === 'other-model')).toBe(true);
+		expect(await getEmbeddingMigration(modelEnv)).toEqual(migration);
+		// Once complete, there is nothing left to do
+		expect(await runEmbeddingMigrationBatch(modelEnv)).toEqual(migration);
+	});
+
+	it('re-embeds every memory when the model changes again mid-migration', async () => {
+		const scope = { userId: 'changing-user' };
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const texts = Array.from({ length: 60 }, (_, i) => `Memory number ${i}`);
+		await storeUserMemory(offlineEnv, scope, texts.map((text) => ({ text, type: 'fact' as const })));
+		const defaultModel = '@cf/baai/bge-base-en-v1.5';
+		const withModel = (model: string) => ({ ...offlineEnv, EMBEDDING_MODEL: model });
+
+		// Interrupt a migration to a second model with one to a third, then go back to the default
+		await runEmbeddingMigrationBatch(withModel('second-model'));
+		await runEmbeddingMigrationBatch(withModel('third-model'));
+		const modelEnv = withModel(defaultModel);
+		expect(await getQueryEmbeddingModels(modelEnv)).toEqual(expect.arrayContaining([defaultModel, 'second-model', 'third-model']));
+
+		let migration = await runEmbeddingMigrationBatch(modelEnv);
+		expect(migration).toMatchObject({ toModel: defaultModel, status: 'running' });
+		// Memories of every model involved are still found, each once
+		const found = await searchMemories(modelEnv, scope, 'memory', { topK: 20, minScore: 0, rerank: false });
+		expect(new Set(found.map((memory) => memory.id)).size).toBe(20);
+
+		while (migration?.status === 'running') {
+			migration = await runEmbeddingMigrationBatch(modelEnv);
+		}
+		expect(migration).toMatchObject({ status: 'completed' });
+		expect([...vectorize.vectors.values()].every((vector) => vector.metadata?.embeddingModel === defaultModel)).toBe(true);
+		expect(await getQueryEmbeddingModels(modelEnv)).toEqual([defaultModel]);
+	});
+
+	it('stops when the new model does not fit the index', async () => {
+		const { env: offlineEnv, vectorize, ai } = createOfflineEnv();
+		await storeUserMemory(offlineEnv, { userId: 'wide-user' }, [{ text: 'User likes tea', type: 'fact' }]);
+		ai.embed = (text, model) => (model === 'wide-model' ? [...fakeEmbedding(text), 0] : fakeEmbedding(text));
+
+		const migration = await runEmbeddingMigrationBatch({ ...offlineEnv, EMBEDDING_MODEL: 'wide-model' });
+		expect(migration).toMatchObject({ status: 'failed', error: expect.stringContaining(`${FAKE_DIMENSIONS + 1}-dimensional`) });
+		expect([...vectorize.vectors.values()][0].metadata?.embeddingModel).toBe('@cf/baai/bge-base-en-v1.5');
+	});
+});
@@ -1,3 +1,6 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	type WorkerEnv = import('../src/index').Env;
+	interface ProvidedEnv extends WorkerEnv {
+		TEST_MIGRATIONS: D1Migration[];
+	}
 }
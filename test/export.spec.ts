@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { exportUserMemories, importUserMemories, storeUserMemory, type MemoryExportRecord } from '../src/memory';
+import { authHeaders, createOfflineEnv, FAKE_DIMENSIONS, fakeEmbedding, fetchWorker } from './fakes';
+
+async function collect(records: AsyncGenerator<MemoryExportRecord>): Promise<MemoryExportRecord[]> {
+	const all: MemoryExportRecord[] = [];
+	for await (const record of records) {
+		all.push(record);
+	}
+	return all;
+}
+
+describe('memory export and import', () => {
+	it('exports memories with their metadata, and vectors only on request', async () => {
+		const { env: storeEnv } = createOfflineEnv();
+		const scope = { userId: 'export-user', conversationId: 'c1' };
+		await storeUserMemory(storeEnv, scope, [{ text: 'User likes tea', type: 'fact' }]);
+
+		const [record] = await collect(exportUserMemories(storeEnv, scope, false));
+		expect(record).toMatchObject({ text: 'User likes tea', type: 'fact', revision: 1, conversationId: 'c1' });
+		expect(record.values).toBeUndefined();
+
+		const [withVector] = await collect(exportUserMemories(storeEnv, scope, true));
+		expect(withVector).toMatchObject({ embeddingModel: '@cf/baai/bge-base-en-v1.5', values: fakeEmbedding('User likes tea') });
+	});
+
+	it('imports idempotently and only re-embeds records without usable vectors', async () => {
+		const { env: storeEnv, vectorize, ai } = createOfflineEnv();
+		const embedded = () => ai.calls.flatMap((call) => call.input.text as string[]);
+		const scope = { userId: 'import-user' };
+		const records = [
+			{ id: '01HZZZZZZZZZZZZZZZZZZZZZZZ', text: 'User lives in Oslo', type: 'fact' as const, embeddingModel: '@cf/baai/bge-base-en-v1.5', values: [1, 2, 3] },
+			{ id: '01HZZZZZZZZZZZZZZZZZZZZZZY', text: 'User has a cat', type: 'fact' as const, embeddingModel: 'some-other-model', values: [4, 5, 6] },
+			{ text: 'User plays chess', type: 'fact' as const },
+		];
+
+		const first = await importUserMemories(storeEnv, scope, records);
+		expect(first.reembedded).toBe(2);
+		expect(embedded()).toEqual(['User has a cat', 'User plays chess']);
+		expect(first.ids.slice(0, 2)).toEqual(['01HZZZZZZZZZZZZZZZZZZZZZZZ', '01HZZZZZZZZZZZZZZZZZZZZZZY']);
+		expect(vectorize.vectors.get(first.ids[0])?.values).toEqual([1, 2, 3]);
+
+		const second = await importUserMemories(storeEnv, scope, records);
+		expect(second.ids).toEqual(first.ids);
+		expect(vectorize.vectors.size).toBe(3);
+
+		const exported = await collect(exportUserMemories(storeEnv, scope, false));
+		expect(exported.map((record) => record.text).sort()).toEqual(['User has a cat', 'User lives in Oslo', 'User plays chess']);
+	});
+
+	it('never overwrites another user\'s memory with the same ID', async () => {
+		const { env: storeEnv, vectorize } = createOfflineEnv();
+		const record = { id: '01HYYYYYYYYYYYYYYYYYYYYYYY', text: 'User is vegan', type: 'fact' as const };
+		const [ownerId] = (await importUserMemories(storeEnv, { userId: 'owner' }, [record])).ids;
+		const [otherId] = (await importUserMemories(storeEnv, { userId: 'other' }, [record])).ids;
+
+		expect(ownerId).toBe(record.id);
+		expect(otherId).not.toBe(record.id);
+		expect(otherId.slice(0, 10)).toBe(record.id.slice(0, 10));
+		expect(vectorize.vectors.get(ownerId)?.metadata?.userId).toBe('owner');
+		expect((await importUserMemories(storeEnv, { userId: 'other' }, [record])).ids).toEqual([otherId]);
+	});
+
+	it('rejects vectors that do not fit the index and invalid conversation IDs before writing', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const headers = await authHeaders('import-user');
+		const lines = [
+			{ text: 'User lives in Oslo', type: 'fact', embeddingModel: '@cf/baai/bge-base-en-v1.5', values: [1, 2, 3] },
+			{ text: 'User has a cat', type: 'fact', embeddingModel: 'some-other-model', values: [4, 5, 6] },
+			'',
+			{ text: 'User plays chess', type: 'fact', conversationId: 'not a conversation!' },
+			{ text: 'User reads a lot', type: 'fact', embeddingModel: '@cf/baai/bge-base-en-v1.5', values: new Array(FAKE_DIMENSIONS).fill(0.1) },
+		];
+
+		const response = await fetchWorker(offlineEnv, '/api/memory/import', {
+			method: 'POST',
+			headers,
+			body: lines.map((line) => (line ? JSON.stringify(line) : line)).join('\n'),
+		});
+
+		expect(response.status).toBe(400);
+		expect(response.json()).toMatchObject({
+			error: {
+				code: 'validation_failed',
+				fields: [
+					{ field: 'lines[3].conversationId', message: "must be letters, digits, '-' or '_', up to 48 characters" },
+					{ field: 'lines[0].values', message: `must have ${FAKE_DIMENSIONS} dimensions, like the index` },
+				],
+			},
+		});
+		expect(vectorize.vectors.size).toBe(0);
+	});
+});
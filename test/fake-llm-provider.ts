@@ -0,0 +1,48 @@
+import type { LlmProvider, LlmTurn, OpenRouterMessage, ToolDefinition } from '../src/llm';
+
+type ScriptedStep = string | Error | LlmTurn;
+
+// Offline stand-in for an LLM backend. Each call consumes the next scripted step: a string is
+// returned as the completion (streamed word by word), an LlmTurn answers a call with tools, an
+// Error is thrown.
+export class FakeLlmProvider implements LlmProvider {
+	readonly calls: OpenRouterMessage[][] = [];
+
+	constructor(
+		readonly name: string,
+		private readonly steps: ScriptedStep[],
+	) {}
+
+	private next(messages: OpenRouterMessage[]): string | LlmTurn {
+		// Copied, since the agent loop keeps appending to the same array
+		this.calls.push([...messages]);
+		const step = this.steps.shift();
+		if (step === undefined) {
+			throw new Error(`${this.name}: no scripted response left`);
+		}
+		if (step instanceof Error) {
+			throw step;
+		}
+		return step;
+	}
+
+	private nextText(messages: OpenRouterMessage[]): string {
+		const step = this.next(messages);
+		return typeof step === 'string' ? step : step.content;
+	}
+
+	async complete(messages: OpenRouterMessage[]): Promise<string> {
+		return this.nextText(messages);
+	}
+
+	async *stream(messages: OpenRouterMessage[]): AsyncGenerator<string> {
+		for (const token of this.nextText(messages).split(/(?<= )/)) {
+			yield token;
+		}
+	}
+
+	async completeWithTools(messages: OpenRouterMessage[], _tools: ToolDefinition[]): Promise<LlmTurn> {
+		const step = this.next(messages);
+		return typeof step === 'string' ? { content: step, toolCalls: [] } : step;
+	}
+}
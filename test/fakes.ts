@@ -0,0 +1,256 @@
+import { createExecutionContext, env, fetchMock, runInDurableObject, SELF, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeAll, expect } from 'vitest';
+import { cosineSimilarity } from '../src/embeddings';
+import worker from '../src/index';
+
+export const ADMIN_TOKEN = 'test-admin-token';
+export const FAKE_DIMENSIONS = 64;
+const OPENROUTER_ORIGIN = 'https://openrouter.ai';
+
+// A deterministic bag-of-words embedding: every word is hashed into one of FAKE_DIMENSIONS
+// buckets and the counts are normalized, so texts that share words score as similar.
+export function fakeEmbedding(text: string): number[] {
+	const vector = new Array<number>(FAKE_DIMENSIONS).fill(0);
+	for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+		let hash = 2166136261;
+		for (let i = 0; i < word.length; i++) {
+			hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+		}
+		vector[(hash >>> 0) % FAKE_DIMENSIONS] += 1;
+	}
+	const norm = Math.hypot(...vector);
+	return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+// An in-memory Vectorize index with namespaces, metadata and cosine similarity scores. Set
+// `error` to make every call fail the way an unavailable index would.
+export class FakeVectorize {
+	readonly vectors = new Map<string, VectorizeVector>();
+	error: Error | null = null;
+
+	async query(vector: number[], options: VectorizeQueryOptions = {}): Promise<VectorizeMatches> {
+		this.check();
+		const topK = options.topK ?? 5;
+		if (topK > (options.returnMetadata === 'all' || options.returnValues ? 20 : 100)) {
+			throw new Error(`topK ${topK} is over the limit`);
+		}
+		const matches = [...this.vectors.values()]
+			.filter((stored) => options.namespace === undefined || stored.namespace === options.namespace)
+			.map((stored) => ({
+				id: stored.id,
+				namespace: stored.namespace,
+				score: cosineSimilarity(vector, stored.values as number[]),
+				metadata: options.returnMetadata && options.returnMetadata !== 'none' ? stored.metadata : undefined,
+				values: options.returnValues ? stored.values : undefined,
+			}))
+			.sort((a, b) => b.score - a.score)
+			.slice(0, topK);
+		return { matches, count: matches.length };
+	}
+
+	// Like the real index, insert keeps an existing vector with the same ID and upsert replaces it
+	async insert(vectors: VectorizeVector[]): Promise<VectorizeAsyncMutation> {
+		this.check();
+		vectors.filter((vector) => !this.vectors.has(vector.id)).forEach((vector) => this.vectors.set(vector.id, vector));
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	async upsert(vectors: VectorizeVector[]): Promise<VectorizeAsyncMutation> {
+		this.check();
+		vectors.forEach((vector) => this.vectors.set(vector.id, vector));
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	async getByIds(ids: string[]): Promise<VectorizeVector[]> {
+		this.check();
+		return ids.flatMap((id) => (this.vectors.has(id) ? [this.vectors.get(id)!] : []));
+	}
+
+	async deleteByIds(ids: string[]): Promise<VectorizeAsyncMutation> {
+		this.check();
+		ids.forEach((id) => this.vectors.delete(id));
+		return { mutationId: crypto.randomUUID() };
+	}
+
+	async describe(): Promise<VectorizeIndexInfo> {
+		this.check();
+		return { vectorCount: this.vectors.size, dimensions: FAKE_DIMENSIONS, processedUpToDatetime: Date.now(), processedUpToMutation: 0 };
+	}
+
+	// The texts stored under a namespace, in insertion order
+	texts(namespace: string): string[] {
+		return [...this.vectors.values()]
+			.filter((vector) => vector.namespace === namespace)
+			.map((vector) => String(vector.metadata?.memory));
+	}
+
+	private check(): void {
+		if (this.error) {
+			throw this.error;
+		}
+	}
+}
+
+// The Workers AI binding for text embeddings (with `embed`), image captions (every image is
+// described as `caption`), non-streamed text generation (answering with `reply`) and document
+// conversion (every document reads as `markdown`). Set `error` to make every call fail.
+export class FakeAi {
+	readonly calls: Array<{ model: string; input: Record<string, unknown> }> = [];
+	error: Error | null = null;
+	embed: (text: string, model: string) => number[] = (text) => fakeEmbedding(text);
+	caption = 'A red bicycle leaning against a brick wall';
+	markdown = '';
+
+	constructor(private readonly reply: string = 'Workers AI reply') {}
+
+	async run(model: string, input: Record<string, unknown>): Promise<unknown> {
+		this.calls.push({ model, input });
+		if (this.error) {
+			throw this.error;
+		}
+		if (Array.isArray(input.text)) {
+			const data = input.text.map((text) => this.embed(String(text), model));
+			return { shape: [data.length, data[0]?.length ?? FAKE_DIMENSIONS], data };
+		}
+		if (Array.isArray(input.image)) {
+			return { description: this.caption };
+		}
+		if (Array.isArray(input.messages) && !input.stream) {
+			return { response: this.reply };
+		}
+		throw new Error(`FakeAi cannot run ${model}`);
+	}
+
+	async toMarkdown({ name }: { name: string }): Promise<ConversionResponse> {
+		if (this.error) {
+			throw this.error;
+		}
+		return { name, mimeType: 'application/pdf', format: 'markdown', tokens: 0, data: this.markdown };
+	}
+}
+
+// The test environment with the fakes in place of the remote bindings, and OpenRouter as the
+// only LLM provider so that mockOpenRouter decides every reply.
+export function createOfflineEnv(vars: Partial<typeof env> = {}) {
+	const vectorize = new FakeVectorize();
+	const ai = new FakeAi();
+	const offlineEnv = {
+		...env,
+		OPENROUTER_API_KEY: 'test-openrouter-key',
+		LLM_PROVIDERS: 'openrouter',
+		LLM_MAX_RETRIES: '0',
+		...vars,
+		VECTORIZE: vectorize,
+		AI: ai,
+	} as unknown as typeof env;
+	return { env: offlineEnv, vectorize, ai };
+}
+
+export interface OpenRouterRequest {
+	model: string;
+	stream: boolean;
+	messages: Array<{ role: string; content: unknown }>;
+	temperature?: number;
+	max_tokens?: number;
+}
+
+// Answer the next OpenRouter chat completion with `reply`, as JSON or, when the request asks
+// for a stream, as Server-Sent Events with one word per chunk. A status >= 400 answers with an
+// error instead, and `usage` is reported like OpenRouter does. Returns the requests received,
+// parsed. Call useFetchMock() in the describe block first.
+export function mockOpenRouter(reply: string, { status = 200, usage }: { status?: number; usage?: { prompt_tokens: number; completion_tokens: number } } = {}): OpenRouterRequest[] {
+	const requests: OpenRouterRequest[] = [];
+	fetchMock
+		.get(OPENROUTER_ORIGIN)
+		.intercept({ path: '/api/v1/chat/completions', method: 'POST' })
+		.reply((options) => {
+			const request = JSON.parse(String(options.body)) as OpenRouterRequest;
+			requests.push(request);
+			if (status >= 400) {
+				return { statusCode: status, data: JSON.stringify({ error: { message: reply } }) };
+			}
+			if (request.stream) {
+				const chunks = reply.split(/(?<= )/).map((token) => `data: ${JSON.stringify({ choices: [{ delta: { content: token } }] })}\n\n`);
+				if (usage) {
+					chunks.push(`data: ${JSON.stringify({ choices: [], usage })}\n\n`);
+				}
+				return { statusCode: 200, data: chunks.join('') + 'data: [DONE]\n\n', responseOptions: { headers: { 'content-type': 'text/event-stream' } } };
+			}
+			return { statusCode: 200, data: JSON.stringify({ choices: [{ message: { role: 'assistant', content: reply } }], usage }) };
+		});
+	return requests;
+}
+
+// Route outgoing fetches of the describe block's tests to fetchMock interceptors: requests
+// nothing intercepts fail, and each test must use up the interceptors it sets up
+export function useFetchMock() {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => fetchMock.assertNoPendingInterceptors());
+}
+
+// The init of a JSON POST, e.g. a message to /api/chat
+export function chatRequest(headers: Record<string, string>, body: unknown) {
+	return { method: 'POST', headers, body: JSON.stringify(body) };
+}
+
+// Issue an API key through the admin endpoint and return the headers that authenticate with it
+export async function authHeaders(userId: string, limits: { rateLimitPerMinute?: number; dailyTokenQuota?: number } = {}) {
+	const response = await SELF.fetch('https://example.com/api/keys', {
+		method: 'POST',
+		headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, 'Content-Type': 'application/json' },
+		body: JSON.stringify({ userId, ...limits }),
+	});
+	const { key } = await response.json<{ key: string }>();
+	return { Authorization: `Bearer ${key}`, 'Content-Type': 'application/json' };
+}
+
+// Call the worker with the given environment, e.g. one from createOfflineEnv. The body is read
+// before the background work settles, since a streamed response only finishes once it is read.
+export async function fetchWorker(testEnv: typeof env, path: string, init: RequestInit<IncomingRequestCfProperties> = {}) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(new Request<unknown, IncomingRequestCfProperties>(`https://example.com${path}`, init), testEnv, ctx);
+	const body = await response.text();
+	await waitOnExecutionContext(ctx);
+	return { status: response.status, headers: response.headers, body, json: <T>() => JSON.parse(body) as T };
+}
+
+// Open a conversation's session socket the way the browser does, with the key as a subprotocol
+export async function connectSession(key: string, conversationId: string) {
+	const response = await SELF.fetch(`https://example.com/api/chat/session?conversationId=${conversationId}`, {
+		headers: { Upgrade: 'websocket', 'Sec-WebSocket-Protocol': `chatbot, bearer.${key}` },
+	});
+	expect(response.status).toBe(101);
+	expect(response.headers.get('Sec-WebSocket-Protocol')).toBe('chatbot');
+	const ws = response.webSocket!;
+	const events: Array<{ type: string; [key: string]: unknown }> = [];
+	const waiters: Array<() => void> = [];
+	ws.addEventListener('message', (event) => {
+		events.push(JSON.parse(event.data as string));
+		waiters.splice(0).forEach((wake) => wake());
+	});
+	ws.accept();
+	// Resolves with the first event of the given type, waiting for it if need be
+	const next = async (type: string) => {
+		for (;;) {
+			const index = events.findIndex((event) => event.type === type);
+			if (index >= 0) {
+				return events.splice(index, 1)[0];
+			}
+			await new Promise<void>((resolve) => waiters.push(resolve));
+		}
+	};
+	return { ws, next };
+}
+
+// Sessions answer with the worker's own bindings; give a conversation's session those of
+// the given environment instead, e.g. one from createOfflineEnv
+export async function useSessionEnv(testEnv: typeof env, userId: string, conversationId: string) {
+	const stub = env.CHAT_SESSIONS.get(env.CHAT_SESSIONS.idFromName(`${userId}:${conversationId}`));
+	await runInDurableObject(stub, (session) => {
+		session.useBindings(testEnv);
+	});
+}
@@ -0,0 +1,126 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, expect, it, vi } from 'vitest';
+import { ingestImage, MAX_IMAGE_BYTES, resolveImage, toDataUrl } from '../src/images';
+import { createOfflineEnv, useFetchMock } from './fakes';
+
+// A 1x1 transparent PNG
+const PNG = Uint8Array.from(atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='), (c) => c.charCodeAt(0)).buffer;
+
+describe('ingestImage', () => {
+	it('stores the image in R2 and remembers its caption', async () => {
+		const { env: imageEnv, vectorize } = createOfflineEnv();
+		const image = await ingestImage(imageEnv, { userId: 'image-user', conversationId: 'c1' }, PNG, 'image/png', 'body');
+		const inserted = [...vectorize.vectors.values()];
+
+		expect(image).toMatchObject({ contentType: 'image/png', size: PNG.byteLength, caption: 'A red bicycle leaning against a brick wall' });
+		const object = await env.IMAGES.get(`images/image-user/${image.id}`);
+		expect(object?.httpMetadata?.contentType).toBe('image/png');
+		expect(object?.customMetadata).toMatchObject({ userId: 'image-user', conversationId: 'c1' });
+		await object?.arrayBuffer();
+
+		expect(inserted).toHaveLength(1);
+		expect(inserted[0].metadata).toMatchObject({ type: 'image', imageId: image.id, memory: image.caption, conversationId: 'c1' });
+	});
+
+	it('remembers the caption in the memory scope it is given', async () => {
+		const { env: imageEnv, vectorize } = createOfflineEnv();
+		const image = await ingestImage(imageEnv, { userId: 'image-user' }, PNG, 'image/png', 'body', undefined, { userId: 'asst_01ARZ3NDEKTSV4RRFFQ69G5FAV' });
+
+		expect(await env.IMAGES.head(`images/image-user/${image.id}`)).not.toBeNull();
+		expect([...vectorize.vectors.values()][0]).toMatchObject({ namespace: 'asst_01ARZ3NDEKTSV4RRFFQ69G5FAV', metadata: { userId: 'asst_01ARZ3NDEKTSV4RRFFQ69G5FAV' } });
+	});
+
+	it('keeps images it could not caption without remembering them', async () => {
+		const { env: imageEnv, vectorize, ai } = createOfflineEnv();
+		ai.caption = '';
+		const image = await ingestImage(imageEnv, { userId: 'image-user' }, PNG, 'image/png', 'body');
+		expect(image.caption).toBe('');
+		expect(vectorize.vectors.size).toBe(0);
+	});
+
+	it('rejects content that is not a supported image type', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		await expect(ingestImage(imageEnv, { userId: 'image-user' }, PNG, 'text/plain', 'images[0]')).rejects.toMatchObject({
+			status: 400,
+			options: { fields: [{ field: 'images[0]', message: 'must be one of: image/png, image/jpeg, image/gif, image/webp' }] },
+		});
+	});
+});
+
+describe('resolveImage', () => {
+	it('ingests data URLs and finds previously uploaded images by ID', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		const scope = { userId: 'resolve-user' };
+		const fromDataUrl = await resolveImage(imageEnv, scope, toDataUrl(PNG, 'image/png'), 'images[0]');
+		expect(new Uint8Array(fromDataUrl.bytes)).toEqual(new Uint8Array(PNG));
+
+		const byId = await resolveImage(imageEnv, scope, fromDataUrl.image.id, 'images[0]');
+		expect(byId.image).toEqual(fromDataUrl.image);
+	});
+
+	it('does not resolve another user\'s image', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		const { image } = await resolveImage(imageEnv, { userId: 'owner' }, toDataUrl(PNG, 'image/png'), 'images[0]');
+		await expect(resolveImage(imageEnv, { userId: 'intruder' }, image.id, 'images[0]')).rejects.toMatchObject({ status: 400 });
+	});
+});
+
+describe('resolveImage by URL', () => {
+	useFetchMock();
+
+	const rejection = (message: string) => ({ status: 400, options: { fields: [{ field: 'images[0]', message }] } });
+
+	it('fetches and ingests https images, following redirects', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		fetchMock.get('https://images.example.com').intercept({ path: '/old.png' }).reply(302, '', { headers: { Location: '/bike.png' } });
+		fetchMock.get('https://images.example.com').intercept({ path: '/bike.png' }).reply(200, new Uint8Array(PNG), { headers: { 'Content-Type': 'image/png' } });
+
+		const { image, bytes } = await resolveImage(imageEnv, { userId: 'url-user' }, 'https://images.example.com/old.png', 'images[0]');
+
+		expect(image).toMatchObject({ contentType: 'image/png', size: PNG.byteLength });
+		expect(new Uint8Array(bytes)).toEqual(new Uint8Array(PNG));
+	});
+
+	it('keeps only the start of a long source URL with the image', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		const path = `/bike.png?${'q'.repeat(4000)}`;
+		fetchMock.get('https://images.example.com').intercept({ path }).reply(200, new Uint8Array(PNG), { headers: { 'Content-Type': 'image/png' } });
+
+		const { image } = await resolveImage(imageEnv, { userId: 'url-user' }, `https://images.example.com${path}`, 'images[0]');
+
+		const object = await env.IMAGES.head(`images/url-user/${image.id}`);
+		expect(object?.customMetadata?.source).toHaveLength(512);
+		expect(object?.customMetadata?.source?.startsWith('https://images.example.com/bike.png?qqq')).toBe(true);
+	});
+
+	it('rejects plain http and private or local hosts', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		const resolve = (url: string) => resolveImage(imageEnv, { userId: 'url-user' }, url, 'images[0]');
+
+		await expect(resolve('http://images.example.com/bike.png')).rejects.toMatchObject(rejection('must be an https URL'));
+		for (const url of ['https://127.0.0.1/a.png', 'https://169.254.169.254/latest', 'https://10.1.2.3/a.png', 'https://[::1]/a.png', 'https://[fd00::1]/a.png', 'https://localhost/a.png', 'https://0x7f000001/a.png']) {
+			await expect(resolve(url)).rejects.toMatchObject(rejection('must not point to a private or local address'));
+		}
+	});
+
+	it('checks where a redirect leads', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		fetchMock.get('https://images.example.com').intercept({ path: '/bike.png' }).reply(301, '', { headers: { Location: 'https://192.168.1.1/admin' } });
+
+		await expect(resolveImage(imageEnv, { userId: 'url-user' }, 'https://images.example.com/bike.png', 'images[0]')).rejects.toMatchObject(
+			rejection('must not point to a private or local address'),
+		);
+	});
+
+	it('stops reading an image past the size limit without a Content-Length', async () => {
+		const { env: imageEnv } = createOfflineEnv();
+		// An endless body: only the running byte count ends the read
+		const body = new ReadableStream<Uint8Array>({ pull: (controller) => controller.enqueue(new Uint8Array(MAX_IMAGE_BYTES / 4)) });
+		vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(body, { headers: { 'Content-Type': 'image/png' } }));
+
+		await expect(resolveImage(imageEnv, { userId: 'url-user' }, 'https://images.example.com/huge.png', 'images[0]')).rejects.toMatchObject(
+			rejection('must be at most 5 MB'),
+		);
+		vi.restoreAllMocks();
+	});
+});
@@ -1,24 +1,459 @@
 import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
 import { describe, it, expect } from 'vitest';
-import worker from '../src/index';
+import { appendConversationTurns, getConversationTurns, listConversations, MAX_CONVERSATIONS } from '../src/history';
+import worker, { storeUserMemory } from '../src/index';
+import { ADMIN_TOKEN, authHeaders, connectSession, createOfflineEnv } from './fakes';
 
 // For now, you'll need to do something like this to get a correctly-typed
 // `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
+describe('Worker', () => {
+	it('serves the chat page at the root (unit style)', async () => {
 		const request = new IncomingRequest('http://example.com');
 		// Create an empty context to pass to `worker.fetch()`.
 		const ctx = createExecutionContext();
 		const response = await worker.fetch(request, env, ctx);
 		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
 		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+		expect(response.headers.get('Content-Type')).toBe('text/html; charset=utf-8');
+		expect(await response.text()).toContain('<title>Chatbot Prototype</title>');
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+	it('answers unknown API routes with a JSON 404 (integration style)', async () => {
+		const response = await SELF.fetch('https://example.com/api/nope');
+		expect(response.status).toBe(404);
+		expect(await response.json()).toMatchObject({ error: { code: 'not_found' } });
+	});
+});
+
+describe('Authentication', () => {
+	it('rejects API requests without an API key', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory');
+		expect(response.status).toBe(401);
+		expect(response.headers.get('WWW-Authenticate')).toContain('Bearer');
+		expect(await response.json()).toEqual({ error: { code: 'unauthorized', message: 'Missing bearer API key' } });
+	});
+
+	it('rejects unknown API keys', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory', { headers: { Authorization: 'Bearer cbm_nope' } });
+		expect(response.status).toBe(401);
+	});
+
+	it('only lets the admin token manage keys', async () => {
+		const headers = await authHeaders('key-user');
+		const response = await SELF.fetch('https://example.com/api/keys', {
+			method: 'POST',
+			headers,
+			body: JSON.stringify({ userId: 'someone-else' }),
+		});
+		expect(response.status).toBe(403);
+	});
+
+	it('returns 429 with Retry-After once the rate limit is reached', async () => {
+		const headers = await authHeaders('limited-user', { rateLimitPerMinute: 1 });
+		expect((await SELF.fetch('https://example.com/api/history', { headers })).status).toBe(200);
+
+		const limited = await SELF.fetch('https://example.com/api/history', { headers });
+		expect(limited.status).toBe(429);
+		expect(Number(limited.headers.get('Retry-After'))).toBeGreaterThan(0);
+		expect(await limited.json()).toMatchObject({ error: { code: 'rate_limited' } });
+	});
+
+	it('returns 429 when the daily token quota is used up', async () => {
+		const headers = await authHeaders('quota-user', { dailyTokenQuota: 10 });
+		// Usage is tracked per key ID, the SHA-256 of the key
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(headers.Authorization.slice('Bearer '.length)));
+		const keyId = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+		await env.messageId.put(`tokens:${keyId}:${new Date().toISOString().slice(0, 10)}`, '10');
+
+		const response = await SELF.fetch('https://example.com/api/chat', { method: 'POST', headers, body: JSON.stringify({ message: 'Hi' }) });
+		expect(response.status).toBe(429);
+		expect(response.headers.get('Retry-After')).not.toBeNull();
+	});
+});
+
+describe('Memory API validation', () => {
+	it('requires text when adding a memory', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory', {
+			method: 'POST',
+			headers: await authHeaders('memory-user'),
+			body: JSON.stringify({ text: '  ' }),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'text', message: 'must not be empty' }] } });
+	});
+
+	it('rejects bodies that are not JSON', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory', {
+			method: 'POST',
+			headers: await authHeaders('memory-user'),
+			body: 'not json',
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({ error: { code: 'invalid_json', message: 'Request body must be valid JSON' } });
+	});
+
+	it('requires a query when searching memories', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory/search', {
+			method: 'POST',
+			headers: await authHeaders('memory-user'),
+			body: JSON.stringify({}),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			error: { code: 'validation_failed', message: 'Request validation failed', fields: [{ field: 'query', message: 'is required' }] },
+		});
+	});
+
+	it('rejects malformed conversation IDs', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory', {
+			method: 'DELETE',
+			headers: { ...(await authHeaders('memory-user')), 'X-Conversation-Id': 'not a valid id!' },
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'conversationId' }] } });
+	});
+});
+
+describe('Conversation history', () => {
+	it('lists no conversations for a new user', async () => {
+		const response = await SELF.fetch('https://example.com/api/history', { headers: await authHeaders('history-user') });
+		expect(response.status).toBe(200);
+		expect(await response.json()).toEqual({ conversations: [], count: 0 });
+	});
+
+	it('returns an empty transcript for an unknown conversation', async () => {
+		const response = await SELF.fetch('https://example.com/api/history?conversationId=missing', {
+			headers: await authHeaders('history-user'),
+		});
+		expect(await response.json()).toEqual({ conversationId: 'missing', messages: [], count: 0 });
+	});
+
+	const turn = (content: string) => ({ role: 'user' as const, content, timestamp: new Date().toISOString() });
+
+	it('keeps the turns of concurrent conversations in the list', async () => {
+		await Promise.all(['c1', 'c2', 'c3'].map((conversationId) => appendConversationTurns(env, 'concurrent-user', conversationId, [turn(`Hi from ${conversationId}`)])));
+		await appendConversationTurns(env, 'concurrent-user', 'c1', [turn('Again')]);
+
+		const conversations = await listConversations(env, 'concurrent-user');
+		expect(conversations.map((conversation) => conversation.conversationId).sort()).toEqual(['c1', 'c2', 'c3']);
+		expect(conversations[0]).toMatchObject({ conversationId: 'c1', title: 'Hi from c1', messageCount: 2 });
+	});
+
+	it('moves a list stored as one value into the index', async () => {
+		const summary = { conversationId: 'old', title: 'Old chat', createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-02T00:00:00.000Z', messageCount: 4 };
+		await env.messageId.put('conversations:legacy-user', JSON.stringify([summary]));
+
+		expect(await listConversations(env, 'legacy-user')).toEqual([summary]);
+		expect(await env.messageId.get('conversations:legacy-user')).toBeNull();
+		expect(await listConversations(env, 'legacy-user')).toEqual([summary]);
+	});
+
+	it('drops the least recently active conversations beyond the cap', async () => {
+		await appendConversationTurns(env, 'busy-user', 'c0', [turn('Chat 0')]);
+		// Leave c0 clearly the least recently active
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		for (let i = 1; i <= MAX_CONVERSATIONS; i++) {
+			await appendConversationTurns(env, 'busy-user', `c${i}`, [turn(`Chat ${i}`)]);
+		}
+
+		const conversations = await listConversations(env, 'busy-user');
+		expect(conversations).toHaveLength(MAX_CONVERSATIONS);
+		expect(conversations.some((conversation) => conversation.conversationId === 'c0')).toBe(false);
+		expect(await getConversationTurns(env, 'busy-user', 'c0')).toEqual([]);
+	});
+});
+
+describe('Chat request validation', () => {
+	it('rejects unknown memory types', async () => {
+		const response = await SELF.fetch('https://example.com/api/chat', {
+			method: 'POST',
+			headers: await authHeaders('chat-user'),
+			body: JSON.stringify({ message: 'Hi', memoryTypes: ['fact', 'gossip'] }),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			error: {
+				code: 'validation_failed',
+				message: 'Request validation failed',
+				fields: [{ field: 'memoryTypes[1]', message: 'must be one of: user_message, assistant_message, fact, image, document, summary' }],
+			},
+		});
+	});
+});
+
+describe('storeUserMemory', () => {
+	// Stores every memory as new: no existing memory ever matches
+	function createMemoryEnv() {
+		const { env: memoryEnv, vectorize } = createOfflineEnv();
+		vectorize.query = async () => ({ matches: [], count: 0 });
+		return { memoryEnv, vectorize };
+	}
+
+	it('assigns unique IDs to concurrent inserts', async () => {
+		const { memoryEnv, vectorize } = createMemoryEnv();
+		const scope = { userId: 'concurrent-user', conversationId: 'c1' };
+		const results = await Promise.all(
+			Array.from({ length: 25 }, (_, i) => storeUserMemory(memoryEnv, scope, [{ text: `memory ${i}`, type: 'user_message' }])),
+		);
+
+		const ids = results.flat().map((stored) => stored.id);
+		expect(new Set(ids).size).toBe(25);
+		expect([...vectorize.vectors.keys()].sort()).toEqual([...ids].sort());
+		expect(ids.every((id) => /^[0-9A-HJKMNP-TV-Z]{26}$/.test(id))).toBe(true);
+
+		const index = await env.messageId.list({ prefix: 'memories:concurrent-user:' });
+		expect(index.keys).toHaveLength(25);
+		expect(index.keys.every((key) => (key.metadata as { conversationId?: string }).conversationId === 'c1')).toBe(true);
+	});
+
+	it('lists newer memories first in the index', async () => {
+		const { memoryEnv } = createMemoryEnv();
+		const scope = { userId: 'ordered-user' };
+		const [first] = await storeUserMemory(memoryEnv, scope, [{ text: 'first', type: 'fact' }]);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const [second] = await storeUserMemory(memoryEnv, scope, [{ text: 'second', type: 'fact' }]);
+
+		// Index keys hold the ID with every ULID character mirrored in the alphabet
+		const alphabet = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+		const unmirror = (key: string) => Array.from(key, (char) => alphabet[31 - alphabet.indexOf(char)]).join('');
+		const index = await env.messageId.list({ prefix: 'memories:ordered-user:' });
+		expect(index.keys.map((key) => unmirror(key.name.slice('memories:ordered-user:'.length)))).toEqual([second.id, first.id]);
+	});
+});
+
+describe('OpenAI-compatible API', () => {
+	it('lists the memory-backed model', async () => {
+		const response = await SELF.fetch('https://example.com/v1/models', { headers: await authHeaders('openai-user') });
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ object: 'list', data: [{ id: 'chatbot-with-memory', object: 'model' }] });
+	});
+
+	it('requires a user message', async () => {
+		const response = await SELF.fetch('https://example.com/v1/chat/completions', {
+			method: 'POST',
+			headers: await authHeaders('openai-user'),
+			body: JSON.stringify({ model: 'chatbot-with-memory', messages: [{ role: 'system', content: 'Be brief' }] }),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'messages' }] } });
+	});
+});
+
+describe('Image API', () => {
+	it('rejects uploads that are not images', async () => {
+		const response = await SELF.fetch('https://example.com/api/images', {
+			method: 'POST',
+			headers: { ...(await authHeaders('image-user')), 'Content-Type': 'text/plain' },
+			body: 'hello',
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'body' }] } });
+	});
+
+	it('returns 404 for unknown images', async () => {
+		const response = await SELF.fetch('https://example.com/api/images/01ARZ3NDEKTSV4RRFFQ69G5FAV', { headers: await authHeaders('image-user') });
+		expect(response.status).toBe(404);
+	});
+});
+
+describe('Memory import', () => {
+	it('reports every invalid line and writes nothing', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory/import', {
+			method: 'POST',
+			headers: { ...(await authHeaders('import-user')), 'Content-Type': 'application/x-ndjson' },
+			body: '{"text":"User likes tea","type":"fact"}\nnot json\n{"text":"","type":"gossip"}\n',
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: {
+				code: 'validation_failed',
+				fields: [
+					{ field: 'lines[1]', message: 'must be valid JSON' },
+					{ field: 'lines[2].text', message: 'must not be empty' },
+					{ field: 'lines[2].type' },
+				],
+			},
+		});
+	});
+
+	it('takes only valid UTC timestamps', async () => {
+		const response = await SELF.fetch('https://example.com/api/memory/import', {
+			method: 'POST',
+			headers: { ...(await authHeaders('import-user')), 'Content-Type': 'application/x-ndjson' },
+			body: [
+				'{"text":"User likes tea","type":"fact","timestamp":"2025-01-31T09:30:00.000Z"}',
+				'{"text":"User likes coffee","type":"fact","timestamp":"last Tuesday"}',
+				'{"text":"User likes juice","type":"fact","timestamp":"2025-13-01T09:30:00Z"}',
+			].join('\n'),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({
+			error: {
+				code: 'validation_failed',
+				fields: [
+					{ field: 'lines[1].timestamp', message: 'must be a UTC timestamp like 2025-01-31T09:30:00Z' },
+					{ field: 'lines[2].timestamp', message: 'must be a valid date' },
+				],
+			},
+		});
+	});
+});
+
+describe('Document API', () => {
+	it('rejects unsupported document types', async () => {
+		const response = await SELF.fetch('https://example.com/api/documents?name=data.json', {
+			method: 'POST',
+			headers: { ...(await authHeaders('document-user')), 'Content-Type': 'application/json' },
+			body: '{}',
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'body' }] } });
+	});
+
+	it('returns 404 for unknown documents', async () => {
+		const response = await SELF.fetch('https://example.com/api/documents/01ARZ3NDEKTSV4RRFFQ69G5FAV', {
+			method: 'DELETE',
+			headers: await authHeaders('document-user'),
+		});
+		expect(response.status).toBe(404);
+	});
+});
+
+describe('Assistant API', () => {
+	it('creates, updates, lists and deletes assistants', async () => {
+		const headers = await authHeaders('assistant-user');
+		const created = await SELF.fetch('https://example.com/api/assistants', {
+			method: 'POST',
+			headers,
+			body: JSON.stringify({ name: 'Tutor', systemPrompt: 'You are a patient maths tutor.', temperature: 0.2 }),
+		});
+		expect(created.status).toBe(201);
+		const profile = await created.json<{ id: string; memoryTemplate: string; isolatedMemory: boolean }>();
+		expect(profile).toMatchObject({ name: 'Tutor', temperature: 0.2, isolatedMemory: false });
+		expect(profile.memoryTemplate).toContain('{{memories}}');
+
+		const updated = await SELF.fetch(`https://example.com/api/assistants/${profile.id}`, {
+			method: 'PATCH',
+			headers,
+			body: JSON.stringify({ model: 'openai/gpt-4o-mini', maxTokens: 256 }),
+		});
+		expect(await updated.json()).toMatchObject({ name: 'Tutor', model: 'openai/gpt-4o-mini', maxTokens: 256, temperature: 0.2 });
+
+		const cleared = await SELF.fetch(`https://example.com/api/assistants/${profile.id}`, {
+			method: 'PATCH',
+			headers,
+			body: JSON.stringify({ temperature: null }),
+		});
+		const clearedProfile = await cleared.json<Record<string, unknown>>();
+		expect(clearedProfile).toMatchObject({ model: 'openai/gpt-4o-mini', maxTokens: 256 });
+		expect(clearedProfile).not.toHaveProperty('temperature');
+
+		const listed = await SELF.fetch('https://example.com/api/assistants', { headers });
+		expect(await listed.json()).toMatchObject({ count: 1, assistants: [{ id: profile.id }] });
+
+		const deleted = await SELF.fetch(`https://example.com/api/assistants/${profile.id}`, { method: 'DELETE', headers });
+		expect(deleted.status).toBe(200);
+		const missing = await SELF.fetch(`https://example.com/api/assistants/${profile.id}`, { headers });
+		expect(missing.status).toBe(404);
+	});
+
+	it('requires the memory template to place the memories', async () => {
+		const response = await SELF.fetch('https://example.com/api/assistants', {
+			method: 'POST',
+			headers: await authHeaders('assistant-user'),
+			body: JSON.stringify({ name: 'Bad', memoryTemplate: 'Remember this.' }),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { fields: [{ field: 'memoryTemplate', message: 'must contain {{memories}}' }] } });
+	});
+
+	it('rejects chats with an unknown assistant', async () => {
+		const response = await SELF.fetch('https://example.com/api/chat', {
+			method: 'POST',
+			headers: await authHeaders('assistant-user'),
+			body: JSON.stringify({ message: 'Hi', assistantId: '01ARZ3NDEKTSV4RRFFQ69G5FAV' }),
+		});
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ error: { fields: [{ field: 'assistantId' }] } });
+	});
+
+	it('keeps user IDs out of the assistant memory namespace', async () => {
+		const response = await SELF.fetch('https://example.com/api/keys', {
+			method: 'POST',
+			headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, 'Content-Type': 'application/json' },
+			body: JSON.stringify({ userId: 'asst_someone' }),
+		});
+		expect(response.status).toBe(400);
+	});
+});
+
+describe('Chat sessions', () => {
+	it('requires a WebSocket upgrade and a conversation ID', async () => {
+		const headers = await authHeaders('session-user');
+		const plain = await SELF.fetch('https://example.com/api/chat/session?conversationId=c1', { headers });
+		expect(plain.status).toBe(426);
+		expect((await plain.json<{ error: { code: string } }>()).error.code).toBe('upgrade_required');
+
+		const missing = await SELF.fetch('https://example.com/api/chat/session', { headers: { ...headers, Upgrade: 'websocket' } });
+		expect(missing.status).toBe(400);
+		await missing.text();
+	});
+
+	it('sends the history on join and syncs typing between tabs', async () => {
+		const key = (await authHeaders('session-user')).Authorization.slice('Bearer '.length);
+		const first = await connectSession(key, 'tabs');
+		const second = await connectSession(key, 'tabs');
+		expect(await first.next('history')).toEqual({ type: 'history', messages: [], status: 'idle' });
+		await second.next('history');
+
+		first.ws.send(JSON.stringify({ type: 'typing', typing: true }));
+		expect(await second.next('typing')).toEqual({ type: 'typing', typing: true });
+
+		first.ws.send(JSON.stringify({ type: 'message' }));
+		expect(await first.next('error')).toMatchObject({ error: { code: 'validation_failed' } });
+		first.ws.send('not json');
+		expect(await first.next('error')).toMatchObject({ error: { code: 'invalid_json' } });
+
+		first.ws.close();
+		second.ws.close();
+	});
+
+	it('closes the session once its key is revoked', async () => {
+		const key = (await authHeaders('session-user')).Authorization.slice('Bearer '.length);
+		const tab = await connectSession(key, 'revoked');
+		await tab.next('history');
+		const closed = new Promise<CloseEvent>((resolve) => tab.ws.addEventListener('close', resolve));
+
+		const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+		const keyId = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+		const revoked = await SELF.fetch(`https://example.com/api/keys/${keyId}`, { method: 'DELETE', headers: { Authorization: `Bearer ${ADMIN_TOKEN}` } });
+		expect(revoked.status).toBe(200);
+		await revoked.text();
+
+		tab.ws.send(JSON.stringify({ type: 'message', message: 'Hello?' }));
+		expect(await tab.next('error')).toMatchObject({ error: { code: 'unauthorized' } });
+		expect((await closed).code).toBe(1008);
+	});
+});
+
+describe('Chat page', () => {
+	it('sends a strict Content-Security-Policy with a fresh nonce', async () => {
+		const response = await SELF.fetch('https://example.com/');
+		const policy = response.headers.get('Content-Security-Policy') || '';
+		const nonce = policy.match(/script-src 'nonce-([^']+)'/)?.[1];
+		expect(policy).toContain("default-src 'none'");
+		expect(policy).toContain("frame-ancestors 'none'");
+		expect(nonce).toBeTruthy();
+
+		const html = await response.text();
+		expect(html).toContain(`<script nonce="${nonce}">`);
+		expect(html).toContain(`<style nonce="${nonce}">`);
+		expect(html).not.toContain('{{nonce}}');
+
+		const again = await SELF.fetch('https://example.com/');
+		expect(again.headers.get('Content-Security-Policy')).not.toBe(policy);
+		await again.text();
 	});
 });
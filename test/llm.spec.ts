@@ -0,0 +1,221 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { createLlmProviders, LlmClient, LlmProviderError, OpenAiCompatibleProvider, WorkersAiProvider } from '../src/llm';
+import { FakeLlmProvider } from './fake-llm-provider';
+import { useFetchMock } from './fakes';
+
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+const options = { maxRetries: 1, retryBaseDelayMs: 0 };
+
+async function collect(tokens: AsyncGenerator<string>): Promise<string> {
+	let text = '';
+	for await (const token of tokens) {
+		text += token;
+	}
+	return text;
+}
+
+describe('LlmClient', () => {
+	it('returns the first provider reply', async () => {
+		const primary = new FakeLlmProvider('primary', ['Hi there']);
+		const client = new LlmClient([primary, new FakeLlmProvider('backup', [])], options);
+		expect(await client.complete(messages)).toBe('Hi there');
+		expect(primary.calls).toEqual([messages]);
+	});
+
+	it('retries retryable errors on the same provider', async () => {
+		const primary = new FakeLlmProvider('primary', [new LlmProviderError('primary', '503', 503), 'Recovered']);
+		const client = new LlmClient([primary], options);
+		expect(await client.complete(messages)).toBe('Recovered');
+		expect(primary.calls).toHaveLength(2);
+	});
+
+	it('falls back to the next provider once retries are exhausted', async () => {
+		const rateLimited = new LlmProviderError('primary', '429', 429);
+		const primary = new FakeLlmProvider('primary', [rateLimited, rateLimited]);
+		const backup = new FakeLlmProvider('backup', ['From backup']);
+		const client = new LlmClient([primary, backup], options);
+		expect(await client.complete(messages)).toBe('From backup');
+		expect(primary.calls).toHaveLength(2);
+	});
+
+	it('does not fall back on client errors', async () => {
+		const primary = new FakeLlmProvider('primary', [new LlmProviderError('primary', '401', 401)]);
+		const backup = new FakeLlmProvider('backup', ['unused']);
+		const client = new LlmClient([primary, backup], options);
+		await expect(client.complete(messages)).rejects.toMatchObject({ status: 401 });
+		expect(backup.calls).toHaveLength(0);
+	});
+
+	it('falls back before the first streamed token', async () => {
+		const primary = new FakeLlmProvider('primary', [new LlmProviderError('primary', '500', 500), new LlmProviderError('primary', '500', 500)]);
+		const backup = new FakeLlmProvider('backup', ['streamed from backup']);
+		const client = new LlmClient([primary, backup], options);
+		expect(await collect(client.stream(messages))).toBe('streamed from backup');
+	});
+});
+
+describe('OpenAiCompatibleProvider', () => {
+	useFetchMock();
+
+	const provider = new OpenAiCompatibleProvider('test', 'https://llm.example.com/v1', 'key', 'test-model');
+
+	it('parses streamed deltas', async () => {
+		const body = [
+			': keep-alive',
+			'data: {"choices":[{"delta":{"content":"Hel"}}]}',
+			'data: {"choices":[{"delta":{"content":"lo"}}]}',
+			'data: [DONE]',
+			'',
+		].join('\n');
+		fetchMock.get('https://llm.example.com').intercept({ path: '/v1/chat/completions', method: 'POST' }).reply(200, body);
+		expect(await collect(provider.stream(messages))).toBe('Hello');
+	});
+
+	it('reports the tokens of streamed and complete replies', async () => {
+		const body = [
+			'data: {"choices":[{"delta":{"content":"Hi"}}]}',
+			'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3}}',
+			'data: [DONE]',
+			'',
+		].join('\n');
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST', body: (body) => JSON.parse(body).stream_options?.include_usage === true })
+			.reply(200, body);
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(200, { choices: [{ message: { content: 'ok' } }], usage: { prompt_tokens: 20, completion_tokens: 1 } });
+		const client = new LlmClient([provider], options);
+
+		expect(await collect(client.stream(messages))).toBe('Hi');
+		expect(await client.complete(messages)).toBe('ok');
+		expect(client.usage).toEqual({ calls: 2, promptTokens: 32, completionTokens: 4 });
+	});
+
+	it('sends the sampling settings', async () => {
+		const tuned = new OpenAiCompatibleProvider('test', 'https://llm.example.com/v1', 'key', 'test-model', { temperature: 0.3, maxTokens: 64 });
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({
+				path: '/v1/chat/completions',
+				method: 'POST',
+				body: (body) => {
+					const parsed = JSON.parse(body);
+					return parsed.temperature === 0.3 && parsed.max_tokens === 64;
+				},
+			})
+			.reply(200, { choices: [{ message: { content: 'ok' } }] });
+		expect(await tuned.complete(messages)).toBe('ok');
+	});
+
+	it('offers tools and returns the calls the model makes', async () => {
+		const toolCall = { id: 'call_1', type: 'function', function: { name: 'search_memory', arguments: '{"query":"tea"}' } };
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({
+				path: '/v1/chat/completions',
+				method: 'POST',
+				body: (body) => JSON.parse(body).tools?.[0]?.function?.name === 'search_memory',
+			})
+			.reply(200, { choices: [{ message: { content: null, tool_calls: [toolCall] } }] });
+		const turn = await provider.completeWithTools(messages, [{ name: 'search_memory', description: 'Search', parameters: { type: 'object' } }]);
+		expect(turn).toEqual({ content: '', toolCalls: [toolCall] });
+	});
+
+	it('reports rate limits as retryable with Retry-After', async () => {
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(429, 'slow down', { headers: { 'Retry-After': '2' } });
+		const error = await provider.complete(messages).catch((e) => e);
+		expect(error).toBeInstanceOf(LlmProviderError);
+		expect(error).toMatchObject({ status: 429, retryAfterMs: 2000, retryable: true });
+	});
+
+	it('caps the Retry-After delay', async () => {
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(429, 'slow down', { headers: { 'Retry-After': '3600' } });
+		const error = await provider.complete(messages).catch((e) => e);
+		expect(error).toMatchObject({ status: 429, retryAfterMs: 10_000 });
+	});
+});
+
+describe('WorkersAiProvider', () => {
+	function streamingAi(...lines: string[]) {
+		return {
+			run: async () => new Response(lines.map((line) => `${line}\n`).join('')).body,
+		} as unknown as Ai;
+	}
+
+	it('streams tokens', async () => {
+		const provider = new WorkersAiProvider(streamingAi('data: {"response":"Hel"}', 'data: {"response":"lo"}', 'data: [DONE]'), '@cf/meta/llama-3.1-8b-instruct');
+		expect(await collect(provider.stream(messages))).toBe('Hello');
+	});
+
+	it('fails a malformed stream chunk as a retryable provider error', async () => {
+		const provider = new WorkersAiProvider(streamingAi('data: {"response":'), '@cf/meta/llama-3.1-8b-instruct');
+		const client = new LlmClient([provider, new FakeLlmProvider('backup', ['streamed from backup'])], { maxRetries: 0, retryBaseDelayMs: 0 });
+
+		await expect(collect(provider.stream(messages))).rejects.toMatchObject({ name: 'LlmProviderError', retryable: true });
+		expect(await collect(client.stream(messages))).toBe('streamed from backup');
+	});
+});
+
+describe('createLlmProviders', () => {
+	useFetchMock();
+
+	it('builds providers in the configured order', () => {
+		const providers = createLlmProviders({ ...env, LLM_PROVIDERS: 'workers-ai, openrouter' });
+		expect(providers.map((provider) => provider.name)).toEqual(['workers-ai', 'openrouter']);
+		expect(providers[0]).toBeInstanceOf(WorkersAiProvider);
+	});
+
+	it('routes a model override to the provider that serves it', async () => {
+		const requested: string[] = [];
+		const ai = { run: async (model: string) => { requested.push(model); return { response: 'ok' }; } } as unknown as Ai;
+		const [workersAi] = createLlmProviders({ ...env, AI: ai, LLM_PROVIDERS: 'workers-ai' }, { model: '@cf/meta/llama-3.3-70b-instruct-fp8-fast' });
+		const [fallback] = createLlmProviders({ ...env, AI: ai, LLM_PROVIDERS: 'workers-ai' }, { model: 'openai/gpt-4o-mini' });
+		await workersAi.complete(messages);
+		await fallback.complete(messages);
+		expect(requested).toEqual(['@cf/meta/llama-3.3-70b-instruct-fp8-fast', '@cf/meta/llama-3.1-8b-instruct']);
+	});
+
+	it('puts the providers that own an overridden model first', () => {
+		const chain = (model: string) => createLlmProviders({ ...env, LLM_PROVIDERS: 'openrouter, workers-ai' }, { model }).map((provider) => provider.name);
+		expect(chain('@cf/meta/llama-3.3-70b-instruct-fp8-fast')).toEqual(['workers-ai', 'openrouter']);
+		expect(createLlmProviders({ ...env, LLM_PROVIDERS: 'workers-ai, openrouter' }, { model: 'openai/gpt-4o-mini' }).map((provider) => provider.name)).toEqual(['openrouter', 'workers-ai']);
+	});
+
+	it('keeps the openai-compatible model under an OpenRouter model override', async () => {
+		fetchMock
+			.get('https://llm.example.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST', body: (body) => JSON.parse(body).model === 'vendor-model' })
+			.reply(200, { choices: [{ message: { content: 'vendor' } }] });
+		const compatibleEnv = { ...env, LLM_PROVIDERS: 'openai-compatible, openrouter', OPENAI_COMPATIBLE_BASE_URL: 'https://llm.example.com/v1', OPENAI_COMPATIBLE_MODEL: 'vendor-model' };
+
+		const providers = createLlmProviders(compatibleEnv, { model: 'openai/gpt-4o-mini' });
+		expect(providers.map((provider) => provider.name)).toEqual(['openrouter', 'openai-compatible']);
+		expect(await providers[1].complete(messages)).toBe('vendor');
+	});
+
+	it('keeps the vision model for image turns over a model override', async () => {
+		for (const [model, content] of [['vision/model', 'seen'], ['openai/gpt-4o-mini', 'read']]) {
+			fetchMock
+				.get('https://openrouter.ai')
+				.intercept({ path: '/api/v1/chat/completions', method: 'POST', body: (body) => JSON.parse(body).model === model })
+				.reply(200, { choices: [{ message: { content } }] });
+		}
+		const visionEnv = { ...env, LLM_PROVIDERS: 'openrouter', OPENROUTER_VISION_MODEL: 'vision/model' };
+
+		expect(await createLlmProviders(visionEnv, { model: 'openai/gpt-4o-mini', vision: true })[0].complete(messages)).toBe('seen');
+		expect(await createLlmProviders(visionEnv, { model: 'openai/gpt-4o-mini' })[0].complete(messages)).toBe('read');
+	});
+
+	it('rejects unknown providers', () => {
+		expect(() => createLlmProviders({ ...env, LLM_PROVIDERS: 'nope' })).toThrow('Unknown LLM provider: nope');
+	});
+});
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Logger, redact } from '../src/log';
+
+describe('redact', () => {
+	it('reduces content fields to their size', () => {
+		expect(redact({ message: 'My name is Ada', memories: ['a', 'b'], result: { ok: true }, count: 2 })).toEqual({
+			message: '[redacted 14 chars]',
+			memories: '[redacted 2 items]',
+			result: '[redacted]',
+			count: 2,
+		});
+	});
+
+	it('scrubs emails, keys and long numbers from any string', () => {
+		expect(redact('ada@example.com sent Bearer abc.def with cbm_0123456789abcdef0123 from +44 20 7946 0958 on 2025-01-31')).toBe(
+			'[email] sent Bearer [secret] with [secret] from [number] on 2025-01-31',
+		);
+	});
+
+	it('logs errors by name and message', () => {
+		expect(redact({ error: new TypeError('bad key for ada@example.com') })).toEqual({ error: { name: 'TypeError', message: 'bad key for [email]' } });
+	});
+});
+
+describe('Logger', () => {
+	afterEach(() => vi.restoreAllMocks());
+
+	function capture() {
+		const lines: Array<Record<string, unknown>> = [];
+		for (const method of ['debug', 'log', 'warn', 'error'] as const) {
+			vi.spyOn(console, method).mockImplementation((line: string) => lines.push(JSON.parse(line)));
+		}
+		return lines;
+	}
+
+	it('writes one JSON line per event with the logger context', () => {
+		const lines = capture();
+		const log = new Logger({ requestId: 'r1' }, 'info').child({ userId: 'u1' });
+
+		log.debug('hidden');
+		log.warn('rerank_failed', { query: 'secret question' });
+
+		expect(lines).toEqual([
+			{ level: 'warn', event: 'rerank_failed', time: expect.any(String), requestId: 'r1', userId: 'u1', query: '[redacted 15 chars]' },
+		]);
+	});
+
+	it('times spans and logs their outcome', async () => {
+		const lines = capture();
+		const log = new Logger({ requestId: 'r1' });
+
+		expect(await log.span('embedding', { count: 1 }, async () => 'done')).toBe('done');
+		await expect(log.span('vectorize.query', {}, async () => Promise.reject(new Error('index unavailable')))).rejects.toThrow('index unavailable');
+
+		expect(lines).toEqual([
+			expect.objectContaining({ level: 'info', event: 'span', span: 'embedding', count: 1, durationMs: expect.any(Number), ok: true }),
+			expect.objectContaining({ level: 'warn', event: 'span', span: 'vectorize.query', ok: false, error: { name: 'Error', message: 'index unavailable' } }),
+		]);
+	});
+});
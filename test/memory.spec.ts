@@ -0,0 +1,264 @@
+import { describe, expect, it } from 'vitest';
+import { deleteUserMemories, getMemoryByChat, runKeywordBackfillBatch, searchMemories, storeUserMemory } from '../src/memory';
+import { authHeaders, createOfflineEnv, fakeEmbedding, fetchWorker } from './fakes';
+
+describe('storeUserMemory', () => {
+	it('embeds memories into the user namespace', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+
+		const stored = await storeUserMemory(offlineEnv, { userId: 'store-user', conversationId: 'c1' }, [{ text: 'User likes green tea', type: 'fact' }]);
+
+		expect(stored).toEqual([{ id: expect.any(String), type: 'fact', action: 'inserted' }]);
+		const vector = vectorize.vectors.get(stored[0].id)!;
+		expect(vector.namespace).toBe('store-user');
+		expect(vector.values).toEqual(fakeEmbedding('User likes green tea'));
+		expect(vector.metadata).toMatchObject({ memory: 'User likes green tea', type: 'fact', userId: 'store-user', conversationId: 'c1' });
+	});
+
+	it('merges a repeated memory into the existing one', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const [first] = await storeUserMemory(offlineEnv, { userId: 'store-user' }, [{ text: 'User likes green tea', type: 'fact' }]);
+
+		const [again] = await storeUserMemory(offlineEnv, { userId: 'store-user' }, [{ text: 'User likes green tea', type: 'fact' }]);
+
+		expect(again).toEqual({ id: first.id, type: 'fact', action: 'merged' });
+		expect(vectorize.vectors.size).toBe(1);
+	});
+
+	it('keeps the conversation a merged memory was first stored in', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const [first] = await storeUserMemory(offlineEnv, { userId: 'store-user', conversationId: 'c1' }, [{ text: 'User likes green tea', type: 'fact' }]);
+
+		await storeUserMemory(offlineEnv, { userId: 'store-user', conversationId: 'c2' }, [{ text: 'User likes green tea', type: 'fact' }]);
+
+		expect(vectorize.vectors.get(first.id)!.metadata).toMatchObject({ conversationId: 'c1', revision: 2 });
+	});
+
+	it('reports embedding failures as LLM errors and stores nothing', async () => {
+		const { env: offlineEnv, ai, vectorize } = createOfflineEnv();
+		ai.error = new Error('model unavailable');
+
+		await expect(storeUserMemory(offlineEnv, { userId: 'store-user' }, [{ text: 'User likes green tea', type: 'fact' }])).rejects.toMatchObject({
+			name: 'LlmProviderError',
+			message: expect.stringContaining('model unavailable'),
+		});
+		expect(vectorize.vectors.size).toBe(0);
+	});
+});
+
+describe('getMemoryByChat', () => {
+	async function seed() {
+		const offline = createOfflineEnv();
+		await storeUserMemory(offline.env, { userId: 'recall-user' }, [
+			{ text: 'User likes green tea', type: 'fact' },
+			{ text: 'User owns a red bicycle', type: 'fact' },
+		]);
+		await storeUserMemory(offline.env, { userId: 'other-user' }, [{ text: 'User likes green tea a lot', type: 'fact' }]);
+		return offline;
+	}
+
+	it('returns the user\'s most similar memories, best first', async () => {
+		const { env: offlineEnv } = await seed();
+
+		const memories = await getMemoryByChat(offlineEnv, { userId: 'recall-user' }, 'Which tea does user like, green tea?');
+
+		expect(memories.map((memory) => memory.text)).toEqual(['User likes green tea']);
+		expect(memories[0].similarity).toBeGreaterThan(0.5);
+	});
+
+	it('filters by memory type', async () => {
+		const { env: offlineEnv } = await seed();
+
+		expect(await getMemoryByChat(offlineEnv, { userId: 'recall-user' }, 'User likes green tea', { types: ['user_message'] })).toEqual([]);
+	});
+
+	it('returns no memories when the index fails', async () => {
+		const { env: offlineEnv, vectorize } = await seed();
+		vectorize.error = new Error('index unavailable');
+
+		expect(await getMemoryByChat(offlineEnv, { userId: 'recall-user' }, 'User likes green tea')).toEqual([]);
+	});
+});
+
+describe('searchMemories modes', () => {
+	async function seed() {
+		const offline = createOfflineEnv();
+		await storeUserMemory(offline.env, { userId: 'search-user', conversationId: 'orders' }, [
+			{ text: 'User ordered a blue kettle from the garden shop, order number ORD-88231, arriving next Monday morning', type: 'fact' },
+		]);
+		await storeUserMemory(offline.env, { userId: 'search-user', conversationId: 'drinks' }, [
+			{ text: 'User likes green tea', type: 'fact' },
+			{ text: 'Green tea with the kettle every morning', type: 'user_message' },
+		]);
+		await storeUserMemory(offline.env, { userId: 'other-user' }, [{ text: 'Order ORD-88231 belongs to someone else', type: 'fact' }]);
+		return offline;
+	}
+	const scope = { userId: 'search-user' };
+
+	it('finds exact identifiers by keyword that vector search misses', async () => {
+		const { env: offlineEnv } = await seed();
+
+		expect(await searchMemories(offlineEnv, scope, 'ORD-88231', { mode: 'vector' })).toEqual([]);
+		const [hit, ...rest] = await searchMemories(offlineEnv, scope, 'ORD-88231', { mode: 'keyword' });
+		expect(rest).toEqual([]);
+		expect(hit).toMatchObject({ text: expect.stringContaining('ORD-88231'), keywordScore: expect.any(Number) });
+		expect(hit.similarity).toBeUndefined();
+	});
+
+	it('fuses both rankings in hybrid mode', async () => {
+		const { env: offlineEnv } = await seed();
+
+		const memories = await searchMemories(offlineEnv, scope, 'green tea kettle', { mode: 'hybrid', topK: 5, typeWeights: {} });
+
+		// Found by both searches first, then what only the keyword search found
+		expect(memories.map((memory) => memory.text)).toEqual([
+			'Green tea with the kettle every morning',
+			'User likes green tea',
+			'User ordered a blue kettle from the garden shop, order number ORD-88231, arriving next Monday morning',
+		]);
+		expect(memories[0]).toMatchObject({ similarity: expect.any(Number), keywordScore: expect.any(Number) });
+		expect(memories[2].similarity).toBeUndefined();
+	});
+
+	it('applies type, conversation and date filters in every mode', async () => {
+		const { env: offlineEnv } = await seed();
+		const today = new Date().toISOString().slice(0, 10);
+
+		for (const mode of ['vector', 'keyword', 'hybrid'] as const) {
+			const search = async (filters: object) => (await searchMemories(offlineEnv, scope, 'green tea kettle', { mode, topK: 5, minScore: 0, ...filters })).map((memory) => memory.text);
+			expect(await search({ types: ['user_message'] })).toEqual(['Green tea with the kettle every morning']);
+			expect(await search({ conversationId: 'orders' })).toEqual(['User ordered a blue kettle from the garden shop, order number ORD-88231, arriving next Monday morning']);
+			expect(await search({ from: `${today}T00:00:00.000Z`, to: `${today}T23:59:59.999Z` })).toHaveLength(3);
+			expect(await search({ to: '2020-01-01T00:00:00.000Z' })).toEqual([]);
+		}
+	});
+
+	it('keeps the keyword index in step with edits and deletes', async () => {
+		const { env: offlineEnv } = await seed();
+		const [hit] = await searchMemories(offlineEnv, scope, 'ORD-88231', { mode: 'keyword' });
+
+		await deleteUserMemories(offlineEnv, 'search-user', [hit.id]);
+
+		expect(await searchMemories(offlineEnv, scope, 'ORD-88231', { mode: 'keyword' })).toEqual([]);
+		const rows = await offlineEnv.DB.prepare('SELECT id FROM memory_text WHERE id = ?1').bind(hit.id).all();
+		expect(rows.results).toEqual([]);
+	});
+
+	it('falls back to vector results when keyword search fails in hybrid mode', async () => {
+		const { env: offlineEnv } = await seed();
+		await offlineEnv.DB.exec('DROP TABLE memory_fts');
+
+		expect((await searchMemories(offlineEnv, scope, 'green tea', { mode: 'hybrid' })).map((memory) => memory.text)).toContain('User likes green tea');
+		await expect(searchMemories(offlineEnv, scope, 'green tea', { mode: 'keyword' })).rejects.toMatchObject({ name: 'StorageError' });
+	});
+
+	it('backfills the keyword index with memories stored before it existed', async () => {
+		const { env: offlineEnv } = await seed();
+		await offlineEnv.DB.exec('DELETE FROM memory_text');
+		expect(await searchMemories(offlineEnv, scope, 'ORD-88231', { mode: 'keyword' })).toEqual([]);
+
+		const backfill = await runKeywordBackfillBatch(offlineEnv);
+
+		expect(backfill).toMatchObject({ status: 'completed', scanned: 4, indexed: 4, cursor: null });
+		expect(await searchMemories(offlineEnv, scope, 'ORD-88231', { mode: 'keyword' })).toHaveLength(1);
+		expect(await runKeywordBackfillBatch(offlineEnv)).toEqual(backfill);
+	});
+
+	it('reranks with the supported model when MEMORY_RERANK_MODEL names another', async () => {
+		const { env: offlineEnv, ai } = await seed();
+		const rerankEnv = { ...offlineEnv, MEMORY_RERANK_MODEL: '@cf/unknown/reranker' };
+
+		// The fake cannot rerank, so the vector ranking is kept
+		const memories = await searchMemories(rerankEnv, scope, 'green tea kettle', { topK: 5, minScore: 0, rerank: true });
+
+		expect(memories.length).toBeGreaterThan(1);
+		expect(ai.calls.map((call) => call.model)).toContain('@cf/baai/bge-reranker-base');
+		expect(ai.calls.map((call) => call.model)).not.toContain('@cf/unknown/reranker');
+	});
+});
+
+describe('Memory API', () => {
+	it('lists the memories of the key\'s user, newest first', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('api-user');
+		await storeUserMemory(offlineEnv, { userId: 'api-user' }, [{ text: 'User likes green tea', type: 'fact' }]);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await storeUserMemory(offlineEnv, { userId: 'api-user' }, [{ text: 'User owns a red bicycle', type: 'fact' }]);
+		await storeUserMemory(offlineEnv, { userId: 'someone-else' }, [{ text: 'Someone else entirely', type: 'fact' }]);
+
+		const response = await fetchWorker(offlineEnv, '/api/memory', { headers });
+
+		expect(response.status).toBe(200);
+		const result = response.json<{ memories: Array<{ message: string; type: string }>; count: number }>();
+		expect(result.count).toBe(2);
+		expect(result.memories.map((memory) => memory.message)).toEqual(['User owns a red bicycle', 'User likes green tea']);
+	});
+
+	it('deletes every memory of the key\'s user', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const headers = await authHeaders('api-user');
+		const stored = await storeUserMemory(offlineEnv, { userId: 'api-user' }, [{ text: 'User likes green tea', type: 'fact' }]);
+		await storeUserMemory(offlineEnv, { userId: 'someone-else' }, [{ text: 'Someone else entirely', type: 'fact' }]);
+
+		const response = await fetchWorker(offlineEnv, '/api/memory', { method: 'DELETE', headers });
+
+		expect(response.json()).toEqual({ message: 'Memory deletion completed', deletedIds: [stored[0].id], deletedCount: 1 });
+		expect(vectorize.texts('api-user')).toEqual([]);
+		expect(vectorize.texts('someone-else')).toEqual(['Someone else entirely']);
+		const again = await fetchWorker(offlineEnv, '/api/memory', { method: 'DELETE', headers });
+		expect(again.json()).toEqual({ message: 'No memories to delete', deletedCount: 0 });
+	});
+
+	it('reaches the memory of an isolated assistant with assistantId', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const headers = await authHeaders('api-user');
+		const created = await fetchWorker(offlineEnv, '/api/assistants', { method: 'POST', headers, body: JSON.stringify({ name: 'Chef', isolatedMemory: true }) });
+		const { id } = created.json<{ id: string }>();
+		await storeUserMemory(offlineEnv, { userId: 'api-user' }, [{ text: 'User likes green tea', type: 'fact' }]);
+		await storeUserMemory(offlineEnv, { userId: `asst_${id}` }, [{ text: 'User is vegetarian', type: 'fact' }]);
+
+		const listed = await fetchWorker(offlineEnv, `/api/memory?assistantId=${id}`, { headers });
+		const deleted = await fetchWorker(offlineEnv, `/api/memory?assistantId=${id}`, { method: 'DELETE', headers });
+		const unknown = await fetchWorker(offlineEnv, '/api/memory?assistantId=01ARZ3NDEKTSV4RRFFQ69G5FAV', { headers });
+
+		expect(listed.json<{ memories: Array<{ message: string }> }>().memories.map((memory) => memory.message)).toEqual(['User is vegetarian']);
+		expect(deleted.json()).toMatchObject({ deletedCount: 1 });
+		expect(vectorize.texts('api-user')).toEqual(['User likes green tea']);
+		expect(unknown.status).toBe(400);
+		expect(unknown.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'assistantId' }] } });
+	});
+
+	it('searches by mode with filters', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('api-user');
+		await storeUserMemory(offlineEnv, { userId: 'api-user', conversationId: 'orders' }, [{ text: 'Invoice INV-2024-0042 was paid', type: 'fact' }]);
+		await storeUserMemory(offlineEnv, { userId: 'api-user' }, [{ text: 'User pays invoices by card', type: 'fact' }]);
+		const search = (body: object) => fetchWorker(offlineEnv, '/api/memory/search', { method: 'POST', headers, body: JSON.stringify(body) });
+
+		const response = await search({ query: 'INV-2024-0042', mode: 'keyword', conversationId: 'orders', from: '2020-01-01' });
+
+		expect(response.status).toBe(200);
+		expect(response.json()).toMatchObject({ count: 1, results: [{ text: 'Invoice INV-2024-0042 was paid', similarity: null, keywordScore: expect.any(Number) }] });
+		expect((await search({ query: 'INV-2024-0042', mode: 'keyword', conversationId: 'other' })).json()).toMatchObject({ count: 0 });
+		expect((await search({ query: 'INV-2024-0042', mode: 'keyword', to: '2020-01-01' })).json()).toMatchObject({ count: 0 });
+
+		const invalid = await search({ query: 'invoice', mode: 'fuzzy', from: '2025-02-01', to: '2025-01-31' });
+		expect(invalid.status).toBe(400);
+		expect(invalid.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'mode' }] } });
+		const reversed = await search({ query: 'invoice', from: '2025-02-01', to: '2025-01-31' });
+		expect(reversed.json()).toMatchObject({ error: { code: 'validation_failed', fields: [{ field: 'from' }] } });
+	});
+
+	it('reports index failures as storage_error', async () => {
+		const { env: offlineEnv, vectorize } = createOfflineEnv();
+		const headers = await authHeaders('api-user');
+		await storeUserMemory(offlineEnv, { userId: 'api-user' }, [{ text: 'User likes green tea', type: 'fact' }]);
+		vectorize.error = new Error('index unavailable');
+
+		for (const method of ['GET', 'DELETE']) {
+			const response = await fetchWorker(offlineEnv, '/api/memory', { method, headers });
+			expect(response.status).toBe(503);
+			expect(response.json()).toMatchObject({ error: { code: 'storage_error', message: expect.stringContaining('Vectorize') } });
+		}
+	});
+});
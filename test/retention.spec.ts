@@ -0,0 +1,115 @@
+import type { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { LlmClient } from '../src/llm';
+import { editUserMemory, generateUlid, getUserMemory, importUserMemories, listMemoryIndexEntries } from '../src/memory';
+import { applyRetentionPolicy, clusterMemories, type RetentionPolicy } from '../src/retention';
+import { FakeLlmProvider } from './fake-llm-provider';
+import { createOfflineEnv, fakeEmbedding } from './fakes';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 31);
+
+// Texts starting with "coffee" embed alike, so they form one cluster
+function createRetentionEnv() {
+	const { env: retentionEnv, vectorize, ai } = createOfflineEnv();
+	ai.embed = (text) => fakeEmbedding(text.startsWith('coffee') ? 'coffee' : text);
+	return { retentionEnv, vectors: vectorize.vectors };
+}
+
+// Import memories created the given number of days before `now`
+async function seed(retentionEnv: typeof env, userId: string, memories: Array<{ text: string; daysAgo: number; pinned?: boolean }>, now = NOW) {
+	const { ids } = await importUserMemories(retentionEnv, { userId }, memories.map((memory) => ({
+		id: generateUlid(now - memory.daysAgo * DAY),
+		text: memory.text,
+		type: 'fact' as const,
+		timestamp: new Date(now - memory.daysAgo * DAY).toISOString(),
+		pinned: memory.pinned,
+	})));
+	return ids;
+}
+
+const llm = (...steps: Array<string | Error>) => new LlmClient([new FakeLlmProvider('fake', steps)], { maxRetries: 0, retryBaseDelayMs: 0 });
+const policy = (fields: Partial<RetentionPolicy>): RetentionPolicy => ({ summarize: false, updatedAt: new Date(NOW).toISOString(), ...fields });
+
+describe('applyRetentionPolicy', () => {
+	it('removes memories past the maximum age or count, but never pinned ones', async () => {
+		const { retentionEnv, vectors } = createRetentionEnv();
+		const [recent, older, oldest, ancient, pinned] = await seed(retentionEnv, 'retention-user', [
+			{ text: 'User lives in Oslo', daysAgo: 1 },
+			{ text: 'User has a cat', daysAgo: 2 },
+			{ text: 'User plays chess', daysAgo: 3 },
+			{ text: 'User studied law', daysAgo: 400 },
+			{ text: 'User is allergic to nuts', daysAgo: 500, pinned: true },
+		]);
+
+		const result = await applyRetentionPolicy(retentionEnv, 'retention-user', policy({ maxAgeDays: 365, maxCount: 2 }), llm(), NOW);
+		expect(result).toEqual({ removed: 2, summaries: 0 });
+		expect([...vectors.keys()].sort()).toEqual([recent, older, pinned].sort());
+		expect(vectors.has(oldest) || vectors.has(ancient)).toBe(false);
+
+		const { entries } = await listMemoryIndexEntries(retentionEnv, 'retention-user', null, 10);
+		expect(entries.map((entry) => entry.id).sort()).toEqual([recent, older, pinned].sort());
+	});
+
+	it('measures age from the last revision, not the creation of a memory', async () => {
+		const { retentionEnv, vectors } = createRetentionEnv();
+		const now = Date.now();
+		const [revised, untouched] = await seed(retentionEnv, 'revised-user', [
+			{ text: 'User lives in Oslo', daysAgo: 400 },
+			{ text: 'User studied law', daysAgo: 400 },
+		], now);
+		const existing = (await getUserMemory(retentionEnv, { userId: 'revised-user' }, revised))!;
+		await editUserMemory(retentionEnv, { userId: 'revised-user' }, existing, 'User lives in Bergen', 'fact');
+
+		const result = await applyRetentionPolicy(retentionEnv, 'revised-user', policy({ maxAgeDays: 365 }), llm(), now + DAY);
+
+		expect(result).toEqual({ removed: 1, summaries: 0 });
+		expect(vectors.has(revised)).toBe(true);
+		expect(vectors.has(untouched)).toBe(false);
+	});
+
+	it('condenses clusters of expired memories into summaries before removing them', async () => {
+		const { retentionEnv, vectors } = createRetentionEnv();
+		const summarizer = new FakeLlmProvider('fake', ['User drinks black coffee every morning.']);
+		const [kept] = await seed(retentionEnv, 'summary-user', [
+			{ text: 'User lives in Oslo', daysAgo: 1 },
+			{ text: 'coffee: user drinks it black', daysAgo: 40 },
+			{ text: 'coffee: user has one every morning', daysAgo: 41 },
+			{ text: 'User once visited Rome', daysAgo: 50 },
+		]);
+
+		const result = await applyRetentionPolicy(retentionEnv, 'summary-user', policy({ maxAgeDays: 30, summarize: true }),
+			new LlmClient([summarizer], { maxRetries: 0, retryBaseDelayMs: 0 }), NOW);
+
+		expect(result).toEqual({ removed: 3, summaries: 2 });
+		expect(summarizer.calls).toHaveLength(1);
+		expect(summarizer.calls[0][1].content).toContain('coffee: user drinks it black');
+		const remaining = [...vectors.values()];
+		expect(remaining.map((vector) => [vector.metadata?.type, vector.metadata?.memory]).sort()).toEqual([
+			['fact', 'User lives in Oslo'],
+			['summary', 'User drinks black coffee every morning.'],
+			['summary', 'User once visited Rome'],
+		]);
+		expect(vectors.has(kept)).toBe(true);
+	});
+
+	it('keeps memories whose summary could not be written', async () => {
+		const { retentionEnv, vectors } = createRetentionEnv();
+		await seed(retentionEnv, 'failing-user', [
+			{ text: 'coffee: user drinks it black', daysAgo: 40 },
+			{ text: 'coffee: user has one every morning', daysAgo: 41 },
+		]);
+
+		const result = await applyRetentionPolicy(retentionEnv, 'failing-user', policy({ maxAgeDays: 30, summarize: true }), llm(new Error('offline')), NOW);
+		expect(result).toEqual({ removed: 0, summaries: 0 });
+		expect(vectors.size).toBe(2);
+	});
+});
+
+describe('clusterMemories', () => {
+	it('groups similar vectors and leaves dissimilar ones alone', () => {
+		const vector = (id: string, values: number[]) => ({ id, values });
+		const clusters = clusterMemories([vector('a', [1, 0]), vector('b', [0, 1]), vector('c', [0.9, 0.1])]);
+		expect(clusters.map((cluster) => cluster.map((member) => member.id))).toEqual([['a', 'c'], ['b']]);
+	});
+});
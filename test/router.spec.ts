@@ -0,0 +1,100 @@
+import { env, createExecutionContext } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { ApiError, guardStorage, StorageError } from '../src/http';
+import { LlmProviderError } from '../src/llm';
+import { Router } from '../src/router';
+import { createOfflineEnv } from './fakes';
+
+async function dispatch(router: Router, method: string, path: string): Promise<Response> {
+	return router.handle(new Request(`https://example.com${path}`, { method }), env, createExecutionContext());
+}
+
+describe('Router', () => {
+	it('passes decoded path parameters to the handler', async () => {
+		const router = new Router().get('/api/memory/:id/revisions', (c) => Response.json(c.params));
+		const response = await dispatch(router, 'GET', '/api/memory/a%20b/revisions');
+		expect(await response.json()).toEqual({ id: 'a b' });
+	});
+
+	it('matches routes in registration order', async () => {
+		const router = new Router()
+			.get('/api/memory/search', () => new Response('search'))
+			.get('/api/memory/:id', () => new Response('memory'));
+		expect(await (await dispatch(router, 'GET', '/api/memory/search')).text()).toBe('search');
+		expect(await (await dispatch(router, 'GET', '/api/memory/01ABC')).text()).toBe('memory');
+	});
+
+	it('answers unknown paths with a not_found envelope', async () => {
+		const response = await dispatch(new Router(), 'GET', '/nope');
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ error: { code: 'not_found', message: 'Not found' } });
+	});
+
+	it('answers other methods on a known path with 405 and Allow', async () => {
+		const router = new Router()
+			.get('/api/memory', () => new Response('list'))
+			.delete('/api/memory', () => new Response('deleted'));
+		const response = await dispatch(router, 'PUT', '/api/memory');
+		expect(response.status).toBe(405);
+		expect(response.headers.get('Allow')).toBe('GET, DELETE');
+		expect(await response.json()).toMatchObject({ error: { code: 'method_not_allowed' } });
+	});
+
+	it('answers other methods on a literal path with 405 instead of a parameterised sibling', async () => {
+		const router = new Router()
+			.get('/api/memory/retention', () => new Response('retention'))
+			.put('/api/memory/retention', () => new Response('saved'))
+			.patch('/api/memory/:id', () => new Response('edited'))
+			.delete('/api/memory/:id', () => new Response('deleted'));
+		const response = await dispatch(router, 'DELETE', '/api/memory/retention');
+		expect(response.status).toBe(405);
+		expect(response.headers.get('Allow')).toBe('GET, PUT');
+		expect(await (await dispatch(router, 'DELETE', '/api/memory/01ABC')).text()).toBe('deleted');
+	});
+
+	it('maps thrown errors onto status codes and error codes', async () => {
+		const router = new Router()
+			.get('/client', () => {
+				throw new ApiError(409, 'validation_failed', 'Bad input', { fields: [{ field: 'text', message: 'is required' }] });
+			})
+			.get('/llm', () => {
+				throw new LlmProviderError('openrouter', '503 Service Unavailable', 503);
+			})
+			.get('/storage', () => {
+				throw new StorageError('KV get failed: boom');
+			})
+			.get('/bug', () => {
+				throw new TypeError('secret internals');
+			});
+
+		const client = await dispatch(router, 'GET', '/client');
+		expect(client.status).toBe(409);
+		expect(await client.json()).toEqual({ error: { code: 'validation_failed', message: 'Bad input', fields: [{ field: 'text', message: 'is required' }] } });
+
+		const llm = await dispatch(router, 'GET', '/llm');
+		expect(llm.status).toBe(502);
+		expect(await llm.json()).toMatchObject({ error: { code: 'llm_error' } });
+
+		const storage = await dispatch(router, 'GET', '/storage');
+		expect(storage.status).toBe(503);
+		expect(await storage.json()).toEqual({ error: { code: 'storage_error', message: 'KV get failed: boom' } });
+
+		const bug = await dispatch(router, 'GET', '/bug');
+		expect(bug.status).toBe(500);
+		expect(await bug.json()).toEqual({ error: { code: 'internal_error', message: 'Internal server error' } });
+	});
+});
+
+describe('guardStorage', () => {
+	it('turns failing binding calls into storage errors', async () => {
+		const { env: failing, vectorize } = createOfflineEnv();
+		vectorize.error = new Error('index offline');
+		await expect(guardStorage(failing).VECTORIZE.query([0.1], { topK: 1 })).rejects.toThrow(StorageError);
+	});
+
+	it('leaves working bindings alone', async () => {
+		const guarded = guardStorage(env);
+		await guarded.messageId.put('guard-test', 'value');
+		expect(await guarded.messageId.get('guard-test')).toBe('value');
+	});
+});
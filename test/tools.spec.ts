@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { LlmClient, type LlmTurn, type OpenRouterMessage } from '../src/llm';
+import { storeUserMemory } from '../src/memory';
+import { runAgentLoop } from '../src/tools';
+import { FakeLlmProvider } from './fake-llm-provider';
+import { createOfflineEnv } from './fakes';
+
+// Texts embed by the topics they mention
+function createToolEnv() {
+	const { env: toolEnv, vectorize, ai } = createOfflineEnv();
+	ai.embed = (text) => [...['tea', 'rust', 'cat'].map((topic) => (text.toLowerCase().includes(topic) ? 1 : 0)), 0.1];
+	return { toolEnv, vectors: vectorize.vectors };
+}
+
+function callTool(name: string, args: unknown): LlmTurn {
+	return { content: '', toolCalls: [{ id: `call_${name}`, type: 'function', function: { name, arguments: JSON.stringify(args) } }] };
+}
+
+const question = (): OpenRouterMessage[] => [{ role: 'user', content: 'Remember that I like tea.' }];
+
+describe('runAgentLoop', () => {
+	it('runs tool calls until the model answers', async () => {
+		const { toolEnv, vectors } = createToolEnv();
+		const provider = new FakeLlmProvider('fake', [callTool('save_memory', { text: 'User likes tea.' }), 'Noted!']);
+		const messages = question();
+
+		const { reply, toolLog } = await runAgentLoop(toolEnv, new LlmClient([provider], { maxRetries: 0, retryBaseDelayMs: 0 }), { userId: 'tool-user' }, messages);
+
+		expect(reply).toBe('Noted!');
+		expect(toolLog).toEqual([{ name: 'save_memory', arguments: { text: 'User likes tea.' }, result: expect.objectContaining({ action: 'inserted' }) }]);
+		expect([...vectors.values()].map((vector) => vector.metadata?.memory)).toEqual(['User likes tea.']);
+		// The model sees the result of its call
+		expect(provider.calls[1][provider.calls[1].length - 1]).toMatchObject({ role: 'tool', tool_call_id: 'call_save_memory' });
+	});
+
+	it('searches and forgets memories in the scope it is given', async () => {
+		const { toolEnv, vectors } = createToolEnv();
+		const [tea] = await storeUserMemory(toolEnv, { userId: 'tool-user' }, [{ text: 'User likes tea.', type: 'fact' }]);
+		await storeUserMemory(toolEnv, { userId: 'other-user' }, [{ text: 'User likes tea too.', type: 'fact' }]);
+		const provider = new FakeLlmProvider('fake', [
+			callTool('search_memory', { query: 'tea' }),
+			callTool('forget_memory', { id: tea.id }),
+			'Forgotten.',
+		]);
+
+		const { toolLog } = await runAgentLoop(toolEnv, new LlmClient([provider], { maxRetries: 0, retryBaseDelayMs: 0 }), { userId: 'tool-user' }, question());
+
+		expect(toolLog[0].result).toEqual([expect.objectContaining({ id: tea.id, text: 'User likes tea.' })]);
+		expect(toolLog[1].result).toEqual({ forgotten: tea.id });
+		expect(vectors.has(tea.id)).toBe(false);
+		expect(vectors.size).toBe(1);
+	});
+
+	it('reports invalid tool calls back to the model', async () => {
+		const { toolEnv } = createToolEnv();
+		const provider = new FakeLlmProvider('fake', [callTool('forget_memory', { id: 'nope' }), callTool('launch_rocket', {}), 'Sorry.']);
+
+		const { reply, toolLog } = await runAgentLoop(toolEnv, new LlmClient([provider], { maxRetries: 0, retryBaseDelayMs: 0 }), { userId: 'tool-user' }, question());
+
+		expect(reply).toBe('Sorry.');
+		expect(toolLog.map((invocation) => invocation.error)).toEqual(['id must be a memory ID', 'unknown tool launch_rocket']);
+	});
+
+	it('makes the model answer once the step budget is spent', async () => {
+		const { toolEnv } = createToolEnv();
+		const provider = new FakeLlmProvider('fake', [callTool('search_memory', { query: 'cats' }), 'No cats on record.']);
+
+		const { reply, toolLog } = await runAgentLoop(toolEnv, new LlmClient([provider], { maxRetries: 0, retryBaseDelayMs: 0 }), { userId: 'tool-user' }, question(), 2);
+
+		expect(reply).toBe('No cats on record.');
+		expect(toolLog).toHaveLength(1);
+	});
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { utcDate } from '../src/usage';
+import { authHeaders, createOfflineEnv, fetchWorker, mockOpenRouter, useFetchMock } from './fakes';
+
+describe('GET /api/usage', () => {
+	useFetchMock();
+
+	it('reports the requests and tokens of the key\'s user for today', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('usage-user', { dailyTokenQuota: 1000 });
+		mockOpenRouter('Hello there.', { usage: { prompt_tokens: 40, completion_tokens: 5 } });
+
+		const chat = await fetchWorker(offlineEnv, '/api/chat', { method: 'POST', headers, body: JSON.stringify({ message: 'Hello', conversationId: 'c1' }) });
+		expect(chat.headers.get('X-Request-Id')).toEqual(expect.any(String));
+
+		const response = await fetchWorker(offlineEnv, '/api/usage', { headers });
+
+		expect(response.status).toBe(200);
+		const today = utcDate(new Date());
+		expect(response.json()).toMatchObject({
+			userId: 'usage-user',
+			to: today,
+			// The chat request and this one
+			days: [{ date: today, requests: 2, llmCalls: 1, promptTokens: 40, completionTokens: 5 }],
+			totals: { requests: 2, llmCalls: 1, promptTokens: 40, completionTokens: 5 },
+			quota: { dailyTokenQuota: 1000, usedToday: 45, remainingToday: 955 },
+		});
+	});
+
+	it('rejects malformed and reversed date ranges', async () => {
+		const { env: offlineEnv } = createOfflineEnv();
+		const headers = await authHeaders('usage-user');
+
+		for (const query of ['from=yesterday', 'from=2025-02-01&to=2025-01-01', 'from=2020-01-01&to=2025-01-01']) {
+			const response = await fetchWorker(offlineEnv, `/api/usage?${query}`, { headers });
+			expect(response.status).toBe(400);
+			expect(response.json()).toMatchObject({ error: { code: 'validation_failed' } });
+		}
+	});
+});
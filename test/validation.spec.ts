@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError } from '../src/http';
+import { array, boolean, nullable, number, object, oneOf, optional, parseBody, string, validate } from '../src/validation';
+
+const schema = object({
+	text: string({ trim: true, minLength: 1, maxLength: 10 }),
+	topK: optional(number({ integer: true, min: 1, max: 20 })),
+	stream: optional(boolean()),
+	types: optional(array(oneOf(['fact', 'user_message'] as const))),
+});
+
+function fieldErrors(value: unknown) {
+	try {
+		validate(schema, value);
+	} catch (error) {
+		expect(error).toBeInstanceOf(ApiError);
+		return (error as ApiError).options.fields;
+	}
+	throw new Error('expected validation to fail');
+}
+
+describe('validate', () => {
+	it('returns the parsed value, trimming strings and leaving out absent optionals', () => {
+		expect(validate(schema, { text: '  hello ', types: ['fact'], extra: true })).toEqual({
+			text: 'hello',
+			topK: undefined,
+			stream: undefined,
+			types: ['fact'],
+		});
+	});
+
+	it('reports every invalid field at once', () => {
+		expect(fieldErrors({ text: '', topK: 2.5, stream: 'yes', types: ['fact', 'gossip'] })).toEqual([
+			{ field: 'text', message: 'must not be empty' },
+			{ field: 'topK', message: 'must be an integer' },
+			{ field: 'stream', message: 'must be a boolean' },
+			{ field: 'types[1]', message: 'must be one of: fact, user_message' },
+		]);
+	});
+
+	it('reports missing required fields and out of range numbers', () => {
+		expect(fieldErrors({ topK: 50 })).toEqual([
+			{ field: 'text', message: 'is required' },
+			{ field: 'topK', message: 'must be at most 20' },
+		]);
+	});
+
+	it('requires a JSON object body', () => {
+		expect(fieldErrors(['text'])).toEqual([{ field: 'body', message: 'must be a JSON object' }]);
+	});
+
+	it('keeps an explicit null apart from an absent nullable field', () => {
+		const patch = object({ temperature: nullable(number({ min: 0, max: 2 })) });
+		expect(validate(patch, { temperature: null })).toEqual({ temperature: null });
+		expect(validate(patch, {})).toEqual({ temperature: undefined });
+		expect(validate(patch, { temperature: 0.5 })).toEqual({ temperature: 0.5 });
+	});
+});
+
+describe('parseBody', () => {
+	it('rejects malformed JSON with invalid_json', async () => {
+		const request = new Request('https://example.com', { method: 'POST', body: '{' });
+		await expect(parseBody(request, schema)).rejects.toMatchObject({ status: 400, code: 'invalid_json' });
+	});
+});
@@ -1,11 +1,32 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { fileURLToPath } from 'node:url';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
+import { unstable_getMiniflareWorkerOptions } from 'wrangler';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+	// Applied to the local D1 database before each test file, see test/apply-migrations.ts
+	const migrations = await readD1Migrations(fileURLToPath(new URL('./migrations', import.meta.url)));
+
+	// The worker and bindings of wrangler.jsonc with remote bindings off: Workers AI and Vectorize
+	// become local stand-ins with no route to the Cloudflare account, and tests that need them use
+	// the fakes from test/fakes.ts
+	const { workerOptions, externalWorkers, main } = unstable_getMiniflareWorkerOptions('./wrangler.jsonc', undefined, { remoteBindingsEnabled: false });
+
+	return {
+		test: {
+			setupFiles: ['./test/apply-migrations.ts'],
+			poolOptions: {
+				workers: {
+					main,
+					// One worker runs the spec files in turn: chat sessions are Durable Objects with open
+					// WebSockets, whose isolated storage clashes when spec files run side by side
+					singleWorker: true,
+					miniflare: {
+						...workerOptions,
+						workers: externalWorkers,
+						bindings: { ...workerOptions.bindings, ADMIN_API_TOKEN: 'test-admin-token', TEST_MIGRATIONS: migrations },
+					},
+				},
 			},
 		},
-	},
+	};
 });